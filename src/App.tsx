@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Navbar from './components/Navbar';
 import Dashboard from './components/Dashboard';
@@ -9,16 +9,51 @@ import AllProducts from './components/AllProducts';
 import AllOrders from './components/AllOrders';
 import Coupons from './components/Coupons';
 import ChatwootDebug from './components/ChatwootDebug';
+import ChatwootSettings from './components/ChatwootSettings';
+import ChatwootSimulator from './components/ChatwootSimulator';
+import SettingsBackup from './components/SettingsBackup';
+import SecuritySettings from './components/SecuritySettings';
+import LockScreen from './components/LockScreen';
 import ERPNextSettings from './components/ERPNext/ERPNextSettings';
 import ERPNextClients from './components/ERPNext/ERPNextClients';
 import ERPNextClientDetails from './components/ERPNext/ERPNextClientDetails';
+import { ChatwootProvider } from './context/ChatwootContext';
+import { LayoutProvider, useLayout } from './context/LayoutContext';
+import ServerMonitor from './services/serverMonitor';
+import WooCommerceService from './services/woocommerce';
+import CredentialVault, { VaultState } from './services/credentialVault';
+
+const AppShell: React.FC = () => {
+  const { compact } = useLayout();
+  const [vault, setVault] = useState<VaultState>(() => CredentialVault.getState());
+
+  useEffect(() => {
+    // Runs before pages mount after an unlock, so they already see the migrated stores.
+    WooCommerceService.migrateLegacyServers();
+    return CredentialVault.subscribe(state => {
+      if (!state.locked) WooCommerceService.migrateLegacyServers();
+      setVault(state);
+    });
+  }, []);
+
+  useEffect(() => {
+    // Without credentials every check would fail, so monitoring waits for the unlock.
+    if (vault.locked) return;
+    ServerMonitor.start();
+    return () => {
+      ServerMonitor.stop();
+    };
+  }, [vault.locked]);
+
+  if (vault.locked) {
+    return <LockScreen />;
+  }
 
-const App: React.FC = () => {
   return (
     <Router>
       <div className="min-h-screen bg-gray-100">
         <Navbar />
-        <div className="container mx-auto px-4 py-8">
+        <div className={compact ? 'px-2 py-3' : 'container mx-auto px-4 py-8'}>
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/user-settings" element={<UserSettings />} />
@@ -28,6 +63,12 @@ const App: React.FC = () => {
             <Route path="/all-orders" element={<AllOrders />} />
             <Route path="/coupons" element={<Coupons />} />
             <Route path="/chatwoot-debug" element={<ChatwootDebug />} />
+            <Route path="/chatwoot-settings" element={<ChatwootSettings />} />
+            {import.meta.env.DEV && (
+              <Route path="/dev/chatwoot-simulator" element={<ChatwootSimulator />} />
+            )}
+            <Route path="/settings-backup" element={<SettingsBackup />} />
+            <Route path="/security-settings" element={<SecuritySettings />} />
             <Route path="/erpnext-settings" element={<ERPNextSettings />} />
             <Route path="/erpnext-clients" element={<ERPNextClients />} />
             <Route path="/erpnext-clients/:clientId" element={<ERPNextClientDetails />} />
@@ -38,4 +79,14 @@ const App: React.FC = () => {
   );
 };
 
+const App: React.FC = () => {
+  return (
+    <ChatwootProvider>
+      <LayoutProvider>
+        <AppShell />
+      </LayoutProvider>
+    </ChatwootProvider>
+  );
+};
+
 export default App;
\ No newline at end of file
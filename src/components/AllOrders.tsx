@@ -1,19 +1,33 @@
-import React, { useState, useEffect } from 'react';
-import axios from 'axios';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { AlertCircle, ShoppingBag, ArrowUpDown, Search } from 'lucide-react';
 import WooCommerceService, { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
+import { isRequestCancelled } from '../services/requestScheduler';
 import OrderDetails from './OrderDetails';
 import StoreSelector from './StoreSelector';
+import RequestQueueStatus from './RequestQueueStatus';
+import SyncStatus from './SyncStatus';
+import FullSyncOffer from './FullSyncOffer';
+import StoreBadge from './StoreBadge';
+import { useLayout } from '../context/LayoutContext';
+import { formatMoney, formatStoreDate } from '../services/storeFormat';
+import { getExchangeRates, sumInBaseCurrency } from '../services/exchangeRates';
+import { getPageFilters, getStoreSelection, savePageFilters, saveStoreSelection } from '../services/pageFilters';
+import { getCachedItems, getSyncStates, mergeStoreItems, saveCachedItems, StoreSyncState } from '../services/storeCache';
+import { isStoreSynced, syncStore } from '../services/storeSync';
 
 interface Order {
   id: number;
   number: string;
   status: string;
   date_created: string;
+  date_created_gmt?: string;
   total: string;
+  currency?: string;
   customer_id: number;
   customer_note: string;
-  notes: Array<{
+  /** Missing for orders that came from the delta sync; OrderDetails loads them when opened. */
+  notes?: Array<{
     id: number;
     author: string;
     date_created: string;
@@ -26,13 +40,35 @@ interface Order {
   };
 }
 
+interface OrderFilters {
+  sortField: 'id' | 'date_created';
+  sortDirection: 'asc' | 'desc';
+  searchTerm: string;
+}
+
 interface LoadingProgress {
   total: number;
   current: number;
   store: string;
 }
 
+const PAGE_KEY = 'all-orders';
+/** A synced store can hold tens of thousands of orders, so the list is rendered in steps. */
+const DISPLAY_STEP = 200;
+
+/** Stores can be in different timezones, so orders are compared by their GMT time when available. */
+const orderTimestamp = (order: Order): number =>
+  order.date_created_gmt ? Date.parse(`${order.date_created_gmt}Z`) : new Date(order.date_created).getTime();
+
+/** Applies the search to cached orders, which are shown before the store has answered. */
+const matchesSearch = (order: Order, term: string): boolean => {
+  const needle = term.trim().toLowerCase();
+  return !needle || String(order.number).toLowerCase().includes(needle) || String(order.id).includes(needle);
+};
+
 const AllOrders: React.FC = () => {
+  const { compact } = useLayout();
+  const [savedFilters] = useState(() => getPageFilters<OrderFilters>(PAGE_KEY));
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingStatus, setLoadingStatus] = useState('Initializing...');
@@ -41,26 +77,74 @@ const AllOrders: React.FC = () => {
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
-  const [sortField, setSortField] = useState<'id' | 'date_created'>('date_created');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
-  const [searchTerm, setSearchTerm] = useState('');
+  const [sortField, setSortField] = useState<OrderFilters['sortField']>(savedFilters.sortField ?? 'date_created');
+  const [sortDirection, setSortDirection] = useState<OrderFilters['sortDirection']>(savedFilters.sortDirection ?? 'desc');
+  const [searchTerm, setSearchTerm] = useState(savedFilters.searchTerm ?? '');
   const [servers, setServers] = useState<WooCommerceServer[]>([]);
   const [selectedServers, setSelectedServers] = useState<string[]>([]);
+  const [syncStates, setSyncStates] = useState<Record<string, StoreSyncState>>({});
+  const [failedServers, setFailedServers] = useState<string[]>([]);
+  const [displayLimit, setDisplayLimit] = useState(DISPLAY_STEP);
+  const [unsyncedServers, setUnsyncedServers] = useState<string[]>([]);
+  const [downloading, setDownloading] = useState(false);
+  const [exchangeRates] = useState(getExchangeRates);
+
+  // Aborted when the page unmounts, which drops its queued and running requests.
+  const requestController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    requestController.current = controller;
+    return () => controller.abort();
+  }, []);
 
   useEffect(() => {
     const allServers = WooCommerceService.getServers();
     setServers(allServers);
-    setSelectedServers(allServers.filter(s => s.status === 'online').map(s => s.id));
+    setSelectedServers(getStoreSelection(PAGE_KEY, allServers));
   }, []);
 
+  useEffect(() => {
+    savePageFilters(PAGE_KEY, { sortField, sortDirection, searchTerm });
+  }, [sortField, sortDirection, searchTerm]);
+
   useEffect(() => {
     if (selectedServers.length > 0) {
       setOrders([]);
       setPage(1);
+      setDisplayLimit(DISPLAY_STEP);
+      loadCachedOrders();
       fetchOrders();
     }
   }, [selectedServers]);
 
+  useEffect(() => {
+    if (page > 1) {
+      fetchOrders();
+    }
+  }, [page]);
+
+  // Renders the last fetched orders straight away; fetchOrders replaces them as stores answer.
+  const loadCachedOrders = async () => {
+    try {
+      const [cachedOrders, states] = await Promise.all([
+        getCachedItems<Order>(selectedServers, 'orders'),
+        getSyncStates(selectedServers, 'orders')
+      ]);
+      setSyncStates(states);
+      setOrders(prevOrders => mergeStoreItems(cachedOrders.filter(order => matchesSearch(order, searchTerm)), prevOrders));
+    } catch (error) {
+      console.error('Error reading cached orders:', error);
+    }
+  };
+
+  /** Syncs the store's orders and returns all of them from the cache. */
+  const syncOrders = async (server: WooCommerceServer): Promise<Order[]> => {
+    const { state } = await syncStore(server, 'orders');
+    setSyncStates(prev => ({ ...prev, [server.id]: state }));
+    return getCachedItems<Order>([server.id], 'orders');
+  };
+
   const fetchOrders = async () => {
     setLoading(true);
     setError(null);
@@ -70,7 +154,7 @@ const AllOrders: React.FC = () => {
       setLoadingStatus('Connecting to stores...');
       const orderPromises = selectedServers.map(async (serverId, index) => {
         const server = servers.find(s => s.id === serverId);
-        if (!server) return [];
+        if (!server) return { serverId, orders: [], hasMore: false, failed: false, complete: false, unsynced: false };
 
         try {
           setLoadingProgress(prev => ({
@@ -78,37 +162,31 @@ const AllOrders: React.FC = () => {
             current: index,
             store: server.name
           }));
+          // The cache of a synced store holds all of its orders, so only changes are transferred.
+          const listingAll = page === 1 && !searchTerm;
+          if (listingAll && await isStoreSynced(server.id, 'orders')) {
+            setLoadingStatus(`Syncing changed orders from ${server.name}...`);
+            return { serverId, orders: await syncOrders(server), hasMore: false, failed: false, complete: true, unsynced: false };
+          }
+
           setLoadingStatus(`Fetching orders from ${server.name}...`);
 
+          const client = new WooCommerceClient(server, requestController.current?.signal);
+
           // Fetch orders
-          const ordersResponse = await axios.get(`${server.url}/wp-json/wc/v3/orders`, {
-            auth: {
-              username: server.consumerKey,
-              password: server.consumerSecret
-            },
-            params: {
-              per_page: 20,
-              page: page,
-              search: searchTerm
-            }
+          const ordersPage = await client.listOrders<Order>({
+            per_page: 20,
+            page: page,
+            search: searchTerm
           });
 
           // Fetch notes for each order
           const ordersWithNotes = await Promise.all(
-            ordersResponse.data.map(async (order: Order) => {
+            ordersPage.items.map(async (order) => {
               setLoadingStatus(`Fetching notes for order #${order.number}...`);
-              const notesResponse = await axios.get(
-                `${server.url}/wp-json/wc/v3/orders/${order.id}/notes`,
-                {
-                  auth: {
-                    username: server.consumerKey,
-                    password: server.consumerSecret
-                  }
-                }
-              );
               return {
                 ...order,
-                notes: notesResponse.data,
+                notes: await client.getOrderNotes(order.id),
                 store: {
                   id: server.id,
                   name: server.name
@@ -117,26 +195,40 @@ const AllOrders: React.FC = () => {
             })
           );
 
-          return ordersWithNotes;
+          saveCachedItems(server.id, 'orders', ordersWithNotes)
+            .then(state => setSyncStates(prev => ({ ...prev, [server.id]: state })))
+            .catch(error => console.error(`Error caching orders from ${server.name}:`, error));
+
+          return {
+            serverId,
+            orders: ordersWithNotes,
+            hasMore: page < ordersPage.totalPages,
+            failed: false,
+            complete: false,
+            unsynced: listingAll
+          };
         } catch (error) {
-          console.error(`Error fetching orders from ${server.name}:`, error);
-          return [];
+          const cancelled = isRequestCancelled(error);
+          if (!cancelled) console.error(`Error fetching orders from ${server.name}:`, error);
+          return { serverId, orders: [], hasMore: false, failed: !cancelled, complete: false, unsynced: false };
         }
       });
 
       setLoadingStatus('Processing order data...');
-      const allOrdersArrays = await Promise.all(orderPromises);
-      const allOrders = allOrdersArrays.flat();
-
-      setOrders(prevOrders => {
-        const newOrders = allOrders.filter((newOrder: Order) => 
-          !prevOrders.some(existingOrder => 
-            existingOrder.id === newOrder.id && existingOrder.store?.id === newOrder.store?.id
-          )
-        );
-        return [...prevOrders, ...newOrders];
-      });
-      setHasMore(allOrders.length === selectedServers.length * 20);
+      const storeResults = await Promise.all(orderPromises);
+      const allOrders = storeResults.flatMap(result => result.orders);
+
+      // Synced stores answered with their complete cache, which also drops orders removed by a sweep.
+      const completeStores = new Set(storeResults.filter(result => result.complete).map(result => result.serverId));
+      setOrders(prevOrders => mergeStoreItems(
+        prevOrders.filter(order => !completeStores.has(order.store?.id ?? '')),
+        allOrders
+      ));
+      setFailedServers(storeResults.filter(result => result.failed).map(result => result.serverId));
+      setHasMore(storeResults.some(result => result.hasMore));
+      if (page === 1) {
+        setUnsyncedServers(storeResults.filter(result => result.unsynced).map(result => result.serverId));
+      }
       setLoading(false);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
@@ -144,6 +236,42 @@ const AllOrders: React.FC = () => {
     }
   };
 
+  const handleStoreSelectionChange = (serverIds: string[]) => {
+    setSelectedServers(serverIds);
+    saveStoreSelection(PAGE_KEY, serverIds);
+  };
+
+  /** Downloads every order of the stores that are not synced yet; later visits only sync changes. */
+  const handleDownloadAll = async () => {
+    setDownloading(true);
+    await Promise.all(servers.filter(server => unsyncedServers.includes(server.id)).map(server =>
+      syncOrders(server)
+        .then(syncedOrders => {
+          setOrders(prevOrders => [
+            ...prevOrders.filter(order => order.store?.id !== server.id),
+            ...syncedOrders
+          ]);
+          setUnsyncedServers(prevIds => prevIds.filter(id => id !== server.id));
+        })
+        .catch(error => console.error(`Error syncing orders from ${server.name}:`, error))
+    ));
+    setDownloading(false);
+  };
+
+  const handleStatusChange = (changedOrder: Order, status: string) => {
+    setOrders(prevOrders => prevOrders.map(order =>
+      order.id === changedOrder.id && order.store?.id === changedOrder.store?.id ? { ...order, status } : order
+    ));
+  };
+
+  const handleNoteAdded = (changedOrder: Order, note: NonNullable<Order['notes']>[number]) => {
+    setOrders(prevOrders => prevOrders.map(order =>
+      order.id === changedOrder.id && order.store?.id === changedOrder.store?.id && order.notes
+        ? { ...order, notes: [note, ...order.notes] }
+        : order
+    ));
+  };
+
   const handleSort = (field: 'id' | 'date_created') => {
     if (sortField === field) {
       setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
@@ -157,6 +285,8 @@ const AllOrders: React.FC = () => {
     e.preventDefault();
     setOrders([]);
     setPage(1);
+    setDisplayLimit(DISPLAY_STEP);
+    loadCachedOrders();
     fetchOrders();
   };
 
@@ -165,16 +295,22 @@ const AllOrders: React.FC = () => {
     return Math.round((loadingProgress.current / loadingProgress.total) * 100);
   };
 
-  const sortedOrders = [...orders].sort((a, b) => {
+  // Synced stores put their whole cache in the list, so neither is redone on every keystroke.
+  const sortedOrders = useMemo(() => [...orders].sort((a, b) => {
     const direction = sortDirection === 'asc' ? 1 : -1;
     if (sortField === 'id') {
       return (a.id - b.id) * direction;
     } else {
-      const dateA = new Date(a.date_created).getTime();
-      const dateB = new Date(b.date_created).getTime();
-      return (dateA - dateB) * direction;
+      return (orderTimestamp(a) - orderTimestamp(b)) * direction;
     }
-  });
+  }), [orders, sortField, sortDirection]);
+
+  const ordersTotal = useMemo(() => sumInBaseCurrency(orders.map(order => ({
+    amount: parseFloat(order.total || '0'),
+    currency: order.currency
+  })), exchangeRates), [orders, exchangeRates]);
+
+  const serversById = useMemo(() => new Map(servers.map(server => [server.id, server])), [servers]);
 
   return (
     <div className="space-y-6">
@@ -220,7 +356,21 @@ const AllOrders: React.FC = () => {
       <StoreSelector
         servers={servers}
         selectedServers={selectedServers}
-        onSelectionChange={setSelectedServers}
+        onSelectionChange={handleStoreSelectionChange}
+      />
+
+      <SyncStatus
+        servers={servers.filter(server => selectedServers.includes(server.id))}
+        syncStates={syncStates}
+        failedServerIds={failedServers}
+        refreshing={loading && orders.length > 0}
+      />
+
+      <FullSyncOffer
+        servers={servers.filter(server => unsyncedServers.includes(server.id))}
+        itemLabel="orders"
+        downloading={downloading}
+        onDownload={handleDownloadAll}
       />
 
       {error && (
@@ -235,7 +385,7 @@ const AllOrders: React.FC = () => {
         </div>
       )}
 
-      {loading && (
+      {loading && orders.length === 0 && (
         <div className="flex flex-col items-center justify-center py-12">
           <div className="w-full max-w-sm bg-white rounded-lg shadow-md p-6">
             <div className="flex flex-col items-center space-y-4">
@@ -254,34 +404,43 @@ const AllOrders: React.FC = () => {
                   Store: {loadingProgress.store} ({loadingProgress.current + 1} of {loadingProgress.total})
                 </p>
               )}
+              <RequestQueueStatus />
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
           </div>
         </div>
       )}
 
+      {orders.length > 0 && (
+        <p className="text-sm text-gray-600">
+          {orders.length} orders loaded, totalling{' '}
+          <span className="font-medium">{formatMoney(ordersTotal.total, null, ordersTotal.currency)}</span>
+          {ordersTotal.missingRates.length > 0 && (
+            <span className="text-yellow-700">
+              {' '}(excluding {ordersTotal.missingRates.join(', ')}: no exchange rate set)
+            </span>
+          )}
+        </p>
+      )}
+
       {/* Orders list remains the same */}
       <div className="bg-white shadow overflow-hidden sm:rounded-md">
         <ul className="divide-y divide-gray-200">
-          {sortedOrders.map((order) => (
+          {sortedOrders.slice(0, displayLimit).map((order) => (
             <li
               key={`${order.store?.id}-${order.id}`}
               onClick={() => setSelectedOrder(order)}
               className="hover:bg-gray-50 cursor-pointer"
             >
-              <div className="px-4 py-4 sm:px-6">
+              <div className={compact ? 'px-3 py-2' : 'px-4 py-4 sm:px-6'}>
                 <div className="flex items-center justify-between">
                   <div className="flex items-center">
-                    <ShoppingBag className="h-6 w-6 text-gray-400 mr-3" />
+                    {!compact && <ShoppingBag className="h-6 w-6 text-gray-400 mr-3" />}
                     <div>
                       <p className="text-sm font-medium text-indigo-600 truncate">
                         Order #{order.number}
                       </p>
-                      {order.store && (
-                        <p className="text-xs text-gray-500">
-                          Store: {order.store.name}
-                        </p>
-                      )}
+                      {order.store && <StoreBadge store={order.store} server={serversById.get(order.store.id)} className="mt-1 max-w-[12rem]" />}
                     </div>
                   </div>
                   <div className="ml-2 flex-shrink-0 flex">
@@ -295,15 +454,17 @@ const AllOrders: React.FC = () => {
                     </p>
                   </div>
                 </div>
-                <div className="mt-2 sm:flex sm:justify-between">
-                  <div className="sm:flex">
-                    <p className="flex items-center text-sm text-gray-500">
-                      Customer ID: {order.customer_id}
-                    </p>
-                  </div>
-                  <div className="mt-2 flex items-center text-sm text-gray-500 sm:mt-0">
-                    <p>Total: {order.total}</p>
-                    <p className="ml-4">Date: {new Date(order.date_created).toLocaleDateString()}</p>
+                <div className={compact ? 'mt-1 flex justify-between' : 'mt-2 sm:flex sm:justify-between'}>
+                  {!compact && (
+                    <div className="sm:flex">
+                      <p className="flex items-center text-sm text-gray-500">
+                        Customer ID: {order.customer_id}
+                      </p>
+                    </div>
+                  )}
+                  <div className={`flex items-center text-sm text-gray-500 ${compact ? '' : 'mt-2 sm:mt-0'}`}>
+                    <p>Total: {formatMoney(order.total, order.store, order.currency)}</p>
+                    <p className="ml-4">Date: {formatStoreDate(order.date_created, order.store)}</p>
                   </div>
                 </div>
               </div>
@@ -312,7 +473,19 @@ const AllOrders: React.FC = () => {
         </ul>
       </div>
 
-      {hasMore && !loading && orders.length > 0 && (
+      {sortedOrders.length > displayLimit && (
+        <div className="flex flex-col items-center mt-6 space-y-2">
+          <p className="text-sm text-gray-500">Showing {displayLimit} of {sortedOrders.length} orders</p>
+          <button
+            onClick={() => setDisplayLimit(prevLimit => prevLimit + DISPLAY_STEP)}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Show More
+          </button>
+        </div>
+      )}
+
+      {hasMore && !loading && orders.length > 0 && sortedOrders.length <= displayLimit && (
         <div className="flex justify-center mt-6">
           <button
             onClick={() => setPage(prevPage => prevPage + 1)}
@@ -333,6 +506,8 @@ const AllOrders: React.FC = () => {
         <OrderDetails
           order={selectedOrder}
           onClose={() => setSelectedOrder(null)}
+          onStatusChange={(status) => handleStatusChange(selectedOrder, status)}
+          onNoteAdded={(note) => handleNoteAdded(selectedOrder, note)}
         />
       )}
     </div>
@@ -1,9 +1,19 @@
-import React, { useState, useEffect } from 'react';
-import axios from 'axios';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { AlertCircle, Package, ArrowUpDown, Search } from 'lucide-react';
 import WooCommerceService, { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
+import { isRequestCancelled } from '../services/requestScheduler';
 import ProductDetails from './ProductDetails';
 import StoreSelector from './StoreSelector';
+import RequestQueueStatus from './RequestQueueStatus';
+import SyncStatus from './SyncStatus';
+import FullSyncOffer from './FullSyncOffer';
+import StoreBadge from './StoreBadge';
+import { useLayout } from '../context/LayoutContext';
+import { formatMoney } from '../services/storeFormat';
+import { getPageFilters, getStoreSelection, savePageFilters, saveStoreSelection } from '../services/pageFilters';
+import { getCachedItems, getSyncStates, mergeStoreItems, saveCachedItems, StoreSyncState } from '../services/storeCache';
+import { isStoreSynced, syncStore } from '../services/storeSync';
 
 interface Product {
   id: number;
@@ -38,6 +48,12 @@ interface Product {
   }>;
 }
 
+interface ProductFilters {
+  sortField: 'name' | 'price';
+  sortDirection: 'asc' | 'desc';
+  searchTerm: string;
+}
+
 interface LoadingProgress {
   total: number;
   current: number;
@@ -45,18 +61,35 @@ interface LoadingProgress {
   status: string;
 }
 
+const PAGE_KEY = 'all-products';
+/** A synced store can hold thousands of products, so the list is rendered in steps. */
+const DISPLAY_STEP = 200;
+
+/** Applies the search to cached products, which are shown before the store has answered. */
+const matchesSearch = (product: Product, term: string): boolean => {
+  const needle = term.trim().toLowerCase();
+  return !needle || product.name.toLowerCase().includes(needle) || (product.sku || '').toLowerCase().includes(needle);
+};
+
 const AllProducts: React.FC = () => {
+  const { compact } = useLayout();
+  const [savedFilters] = useState(() => getPageFilters<ProductFilters>(PAGE_KEY));
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [sortField, setSortField] = useState<'name' | 'price'>('name');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-  const [searchTerm, setSearchTerm] = useState('');
+  const [sortField, setSortField] = useState<ProductFilters['sortField']>(savedFilters.sortField ?? 'name');
+  const [sortDirection, setSortDirection] = useState<ProductFilters['sortDirection']>(savedFilters.sortDirection ?? 'asc');
+  const [searchTerm, setSearchTerm] = useState(savedFilters.searchTerm ?? '');
   const [servers, setServers] = useState<WooCommerceServer[]>([]);
   const [selectedServers, setSelectedServers] = useState<string[]>([]);
+  const [syncStates, setSyncStates] = useState<Record<string, StoreSyncState>>({});
+  const [failedServers, setFailedServers] = useState<string[]>([]);
+  const [displayLimit, setDisplayLimit] = useState(DISPLAY_STEP);
+  const [unsyncedServers, setUnsyncedServers] = useState<string[]>([]);
+  const [downloading, setDownloading] = useState(false);
   const [loadingProgress, setLoadingProgress] = useState<LoadingProgress>({
     total: 0,
     current: 0,
@@ -64,20 +97,62 @@ const AllProducts: React.FC = () => {
     status: 'Initializing...'
   });
 
+  // Aborted when the page unmounts, which drops its queued and running requests.
+  const requestController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    requestController.current = controller;
+    return () => controller.abort();
+  }, []);
+
   useEffect(() => {
     const allServers = WooCommerceService.getServers();
     setServers(allServers);
-    setSelectedServers(allServers.filter(s => s.status === 'online').map(s => s.id));
+    setSelectedServers(getStoreSelection(PAGE_KEY, allServers));
   }, []);
 
+  useEffect(() => {
+    savePageFilters(PAGE_KEY, { sortField, sortDirection, searchTerm });
+  }, [sortField, sortDirection, searchTerm]);
+
   useEffect(() => {
     if (selectedServers.length > 0) {
       setProducts([]);
       setPage(1);
+      setDisplayLimit(DISPLAY_STEP);
+      loadCachedProducts();
       fetchProducts();
     }
   }, [selectedServers]);
 
+  useEffect(() => {
+    if (page > 1) {
+      fetchProducts();
+    }
+  }, [page]);
+
+  // Renders the last fetched products straight away; fetchProducts replaces them as stores answer.
+  const loadCachedProducts = async () => {
+    try {
+      const [cachedProducts, states] = await Promise.all([
+        getCachedItems<Product>(selectedServers, 'products'),
+        getSyncStates(selectedServers, 'products')
+      ]);
+      setSyncStates(states);
+      setProducts(prevProducts => mergeStoreItems(cachedProducts.filter(product => matchesSearch(product, searchTerm)), prevProducts));
+    } catch (error) {
+      console.error('Error reading cached products:', error);
+    }
+  };
+
+  /** Syncs the store's products and returns all of them from the cache. */
+  const syncProducts = async (server: WooCommerceServer): Promise<Product[]> => {
+    const { state } = await syncStore(server, 'products');
+    setSyncStates(prev => ({ ...prev, [server.id]: state }));
+    return getCachedItems<Product>([server.id], 'products');
+  };
+
   const fetchProducts = async () => {
     setLoading(true);
     setError(null);
@@ -91,7 +166,7 @@ const AllProducts: React.FC = () => {
     try {
       const productPromises = selectedServers.map(async (serverId, index) => {
         const server = servers.find(s => s.id === serverId);
-        if (!server) return [];
+        if (!server) return { serverId, products: [], hasMore: false, failed: false, complete: false, unsynced: false };
 
         try {
           setLoadingProgress(prev => ({
@@ -101,19 +176,19 @@ const AllProducts: React.FC = () => {
             status: `Fetching products from ${server.name}...`
           }));
 
-          const response = await axios.get(`${server.url}/wp-json/wc/v3/products`, {
-            auth: {
-              username: server.consumerKey,
-              password: server.consumerSecret
-            },
-            params: {
-              per_page: 20,
-              page,
-              search: searchTerm
-            }
+          // The cache of a synced store holds all of its products, so only changes are transferred.
+          const listingAll = page === 1 && !searchTerm;
+          if (listingAll && await isStoreSynced(server.id, 'products')) {
+            return { serverId, products: await syncProducts(server), hasMore: false, failed: false, complete: true, unsynced: false };
+          }
+
+          const productsPage = await new WooCommerceClient(server, requestController.current?.signal).listProducts<Product>({
+            per_page: 20,
+            page,
+            search: searchTerm
           });
 
-          return response.data.map((product: Product) => ({
+          const products = productsPage.items.map(product => ({
             ...product,
             store: {
               id: server.id,
@@ -121,9 +196,23 @@ const AllProducts: React.FC = () => {
               url: server.url
             }
           }));
+
+          saveCachedItems(server.id, 'products', products)
+            .then(state => setSyncStates(prev => ({ ...prev, [server.id]: state })))
+            .catch(error => console.error(`Error caching products from ${server.name}:`, error));
+
+          return {
+            serverId,
+            products,
+            hasMore: page < productsPage.totalPages,
+            failed: false,
+            complete: false,
+            unsynced: listingAll
+          };
         } catch (error) {
-          console.error(`Error fetching products from ${server.name}:`, error);
-          return [];
+          const cancelled = isRequestCancelled(error);
+          if (!cancelled) console.error(`Error fetching products from ${server.name}:`, error);
+          return { serverId, products: [], hasMore: false, failed: !cancelled, complete: false, unsynced: false };
         }
       });
 
@@ -132,18 +221,20 @@ const AllProducts: React.FC = () => {
         status: 'Processing product data...'
       }));
 
-      const allProductsArrays = await Promise.all(productPromises);
-      const allProducts = allProductsArrays.flat();
+      const storeResults = await Promise.all(productPromises);
+      const allProducts = storeResults.flatMap(result => result.products);
 
-      setProducts(prevProducts => {
-        const newProducts = allProducts.filter((newProduct: Product) => 
-          !prevProducts.some(existingProduct => 
-            existingProduct.id === newProduct.id && existingProduct.store?.id === newProduct.store?.id
-          )
-        );
-        return [...prevProducts, ...newProducts];
-      });
-      setHasMore(allProducts.length === selectedServers.length * 20);
+      // Synced stores answered with their complete cache, which also drops products removed by a sweep.
+      const completeStores = new Set(storeResults.filter(result => result.complete).map(result => result.serverId));
+      setProducts(prevProducts => mergeStoreItems(
+        prevProducts.filter(product => !completeStores.has(product.store?.id ?? '')),
+        allProducts
+      ));
+      setFailedServers(storeResults.filter(result => result.failed).map(result => result.serverId));
+      setHasMore(storeResults.some(result => result.hasMore));
+      if (page === 1) {
+        setUnsyncedServers(storeResults.filter(result => result.unsynced).map(result => result.serverId));
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -151,6 +242,28 @@ const AllProducts: React.FC = () => {
     }
   };
 
+  /** Downloads every product of the stores that are not synced yet; later visits only sync changes. */
+  const handleDownloadAll = async () => {
+    setDownloading(true);
+    await Promise.all(servers.filter(server => unsyncedServers.includes(server.id)).map(server =>
+      syncProducts(server)
+        .then(syncedProducts => {
+          setProducts(prevProducts => [
+            ...prevProducts.filter(product => product.store?.id !== server.id),
+            ...syncedProducts
+          ]);
+          setUnsyncedServers(prevIds => prevIds.filter(id => id !== server.id));
+        })
+        .catch(error => console.error(`Error syncing products from ${server.name}:`, error))
+    ));
+    setDownloading(false);
+  };
+
+  const handleStoreSelectionChange = (serverIds: string[]) => {
+    setSelectedServers(serverIds);
+    saveStoreSelection(PAGE_KEY, serverIds);
+  };
+
   const handleSort = (field: 'name' | 'price') => {
     if (sortField === field) {
       setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
@@ -164,6 +277,8 @@ const AllProducts: React.FC = () => {
     e.preventDefault();
     setProducts([]);
     setPage(1);
+    setDisplayLimit(DISPLAY_STEP);
+    loadCachedProducts();
     fetchProducts();
   };
 
@@ -172,7 +287,7 @@ const AllProducts: React.FC = () => {
     return Math.round((loadingProgress.current / loadingProgress.total) * 100);
   };
 
-  const sortedProducts = [...products].sort((a, b) => {
+  const sortedProducts = useMemo(() => [...products].sort((a, b) => {
     if (sortField === 'name') {
       return sortDirection === 'asc' 
         ? a.name.localeCompare(b.name)
@@ -182,7 +297,9 @@ const AllProducts: React.FC = () => {
       const priceB = parseFloat(b.price || '0');
       return sortDirection === 'asc' ? priceA - priceB : priceB - priceA;
     }
-  });
+  }), [products, sortField, sortDirection]);
+
+  const serversById = useMemo(() => new Map(servers.map(server => [server.id, server])), [servers]);
 
   return (
     <div className="space-y-6">
@@ -227,7 +344,21 @@ const AllProducts: React.FC = () => {
       <StoreSelector
         servers={servers}
         selectedServers={selectedServers}
-        onSelectionChange={setSelectedServers}
+        onSelectionChange={handleStoreSelectionChange}
+      />
+
+      <SyncStatus
+        servers={servers.filter(server => selectedServers.includes(server.id))}
+        syncStates={syncStates}
+        failedServerIds={failedServers}
+        refreshing={loading && products.length > 0}
+      />
+
+      <FullSyncOffer
+        servers={servers.filter(server => unsyncedServers.includes(server.id))}
+        itemLabel="products"
+        downloading={downloading}
+        onDownload={handleDownloadAll}
       />
 
       {error && (
@@ -242,7 +373,7 @@ const AllProducts: React.FC = () => {
         </div>
       )}
 
-      {loading && (
+      {loading && products.length === 0 && (
         <div className="flex flex-col items-center justify-center py-12">
           <div className="w-full max-w-sm bg-white rounded-lg shadow-md p-6">
             <div className="flex flex-col items-center space-y-4">
@@ -261,47 +392,82 @@ const AllProducts: React.FC = () => {
                   Store: {loadingProgress.store} ({loadingProgress.current + 1} of {loadingProgress.total})
                 </p>
               )}
+              <RequestQueueStatus />
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
           </div>
         </div>
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {sortedProducts.map((product) => (
-          <div
-            key={`${product.store?.id}-${product.id}`}
-            onClick={() => setSelectedProduct(product)}
-            className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-200 cursor-pointer"
-          >
-            {product.images?.[0] && (
-              <div className="aspect-w-16 aspect-h-9">
+      {compact ? (
+        <ul className="bg-white shadow rounded-md divide-y divide-gray-200">
+          {sortedProducts.slice(0, displayLimit).map((product) => (
+            <li
+              key={`${product.store?.id}-${product.id}`}
+              onClick={() => setSelectedProduct(product)}
+              className="flex items-center px-3 py-2 hover:bg-gray-50 cursor-pointer"
+            >
+              {product.images?.[0] ? (
                 <img
                   src={product.images[0].src}
                   alt={product.images[0].alt || product.name}
-                  className="object-cover w-full h-48"
+                  className="w-12 h-12 object-cover rounded flex-shrink-0"
                 />
+              ) : (
+                <div className="w-12 h-12 bg-gray-100 rounded flex items-center justify-center flex-shrink-0">
+                  <Package className="w-6 h-6 text-gray-400" />
+                </div>
+              )}
+              <div className="ml-3 flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-800 truncate">{product.name}</p>
+                <div className="flex items-center space-x-2 text-xs text-gray-500 min-w-0">
+                  {product.sku && <span className="truncate">SKU: {product.sku}</span>}
+                  {product.store && <StoreBadge store={product.store} server={serversById.get(product.store.id)} className="max-w-[10rem]" />}
+                </div>
               </div>
-            )}
-            <div className="p-6">
-              <div className="flex items-center justify-between mb-2">
-                <h3 className="text-lg font-semibold text-gray-800">{product.name}</h3>
-                <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
-                  ${parseFloat(product.price || '0').toFixed(2)}
-                </span>
-              </div>
-              {product.short_description && (
-                <p className="text-sm text-gray-600 mb-4" 
-                   dangerouslySetInnerHTML={{ __html: product.short_description }} />
+              <span className="ml-2 px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium flex-shrink-0">
+                {formatMoney(product.price, product.store)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {sortedProducts.slice(0, displayLimit).map((product) => (
+            <div
+              key={`${product.store?.id}-${product.id}`}
+              onClick={() => setSelectedProduct(product)}
+              className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-200 cursor-pointer"
+            >
+              {product.images?.[0] && (
+                <div className="aspect-w-16 aspect-h-9">
+                  <img
+                    src={product.images[0].src}
+                    alt={product.images[0].alt || product.name}
+                    className="object-cover w-full h-48"
+                  />
+                </div>
               )}
-              <div className="flex items-center justify-between text-sm text-gray-500">
-                <span>SKU: {product.sku}</span>
-                <span>{product.store?.name}</span>
+              <div className="p-6">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-lg font-semibold text-gray-800">{product.name}</h3>
+                  <span className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-sm font-medium">
+                    {formatMoney(product.price, product.store)}
+                  </span>
+                </div>
+                {product.short_description && (
+                  <p className="text-sm text-gray-600 mb-4" 
+                     dangerouslySetInnerHTML={{ __html: product.short_description }} />
+                )}
+                <div className="flex items-center justify-between text-sm text-gray-500">
+                  <span>SKU: {product.sku}</span>
+                  {product.store && <StoreBadge store={product.store} server={serversById.get(product.store.id)} className="max-w-[10rem]" />}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
-      </div>
+          ))}
+        </div>
+      )}
 
       {!loading && sortedProducts.length === 0 && (
         <div className="text-center py-8 text-gray-500">
@@ -309,7 +475,19 @@ const AllProducts: React.FC = () => {
         </div>
       )}
 
-      {hasMore && !loading && products.length > 0 && (
+      {sortedProducts.length > displayLimit && (
+        <div className="flex flex-col items-center mt-6 space-y-2">
+          <p className="text-sm text-gray-500">Showing {displayLimit} of {sortedProducts.length} products</p>
+          <button
+            onClick={() => setDisplayLimit(prevLimit => prevLimit + DISPLAY_STEP)}
+            className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            Show More
+          </button>
+        </div>
+      )}
+
+      {hasMore && !loading && products.length > 0 && sortedProducts.length <= displayLimit && (
         <div className="flex justify-center mt-6">
           <button
             onClick={() => setPage(prevPage => prevPage + 1)}
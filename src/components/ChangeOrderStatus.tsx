@@ -0,0 +1,207 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, CheckCircle, RefreshCw } from 'lucide-react';
+import { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient, { WooCommerceOrderStatus } from '../services/wooCommerceClient';
+import { isRequestCancelled } from '../services/requestScheduler';
+
+interface ChangeOrderStatusProps {
+  server: WooCommerceServer;
+  order: {
+    id: number;
+    number: string;
+    status: string;
+  };
+  /** Called with the new status before the store confirms it, and with the old one if it refuses. */
+  onStatusChange: (status: string) => void;
+  onDone: () => void;
+}
+
+/** Shown until the store's statuses, including custom ones, have been read. */
+const DEFAULT_STATUSES: WooCommerceOrderStatus[] = [
+  { slug: 'pending', name: 'Pending payment', total: 0 },
+  { slug: 'processing', name: 'Processing', total: 0 },
+  { slug: 'on-hold', name: 'On hold', total: 0 },
+  { slug: 'completed', name: 'Completed', total: 0 },
+  { slug: 'cancelled', name: 'Cancelled', total: 0 },
+  { slug: 'refunded', name: 'Refunded', total: 0 },
+  { slug: 'failed', name: 'Failed', total: 0 }
+];
+
+const ChangeOrderStatus: React.FC<ChangeOrderStatusProps> = ({ server, order, onStatusChange, onDone }) => {
+  const [statuses, setStatuses] = useState<WooCommerceOrderStatus[]>(DEFAULT_STATUSES);
+  // The order prop follows the optimistic update, so the status it had when the panel opened is kept.
+  const [currentStatus] = useState(order.status);
+  const [status, setStatus] = useState(order.status);
+  const [notifyCustomer, setNotifyCustomer] = useState(false);
+  const [note, setNote] = useState('');
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [changedFrom, setChangedFrom] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    new WooCommerceClient(server, controller.signal).listOrderStatuses()
+      .then(setStatuses)
+      .catch(err => {
+        if (!isRequestCancelled(err)) console.error('Error fetching order statuses:', err);
+      });
+    return () => controller.abort();
+  }, [server]);
+
+  const statusName = (slug: string) => statuses.find(s => s.slug === slug)?.name ?? slug;
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    setError(null);
+    // The list and the order update straight away; they are rolled back if the store refuses.
+    onStatusChange(status);
+
+    const client = new WooCommerceClient(server);
+    try {
+      await client.updateOrder(order.id, { status });
+    } catch (err) {
+      onStatusChange(currentStatus);
+      setError(err instanceof Error ? err.message : 'Failed to change the order status');
+      setSaving(false);
+      setConfirming(false);
+      return;
+    }
+
+    try {
+      if (notifyCustomer && note.trim()) {
+        await client.createOrderNote(order.id, { note: note.trim(), customer_note: true });
+      }
+      setChangedFrom(currentStatus);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error occurred';
+      setError(`The status was changed, but the note to the customer could not be added: ${message}`);
+    } finally {
+      setSaving(false);
+      setConfirming(false);
+    }
+  };
+
+  if (changedFrom !== null) {
+    return (
+      <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 flex items-center justify-between">
+        <span className="flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          Order #{order.number} changed from {statusName(changedFrom)} to {statusName(status)}
+          {notifyCustomer && note.trim() ? '; the customer was notified.' : '.'}
+        </span>
+        <button onClick={onDone} className="text-sm font-medium hover:text-green-900">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <h3 className="text-lg font-semibold flex items-center">
+        <RefreshCw className="w-5 h-5 mr-2 text-gray-500" />
+        Change status
+      </h3>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
+          <div className="flex">
+            <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+            <div>
+              <p className="font-bold">Error</p>
+              <p>{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {confirming ? (
+        <div className="space-y-2 text-sm text-gray-700">
+          <p>
+            Change order #{order.number} from <span className="font-medium">{statusName(currentStatus)}</span> to{' '}
+            <span className="font-medium">{statusName(status)}</span> in {server.name}?
+          </p>
+          {notifyCustomer && note.trim() ? (
+            <p>The customer will be emailed this note:</p>
+          ) : (
+            <p className="text-gray-500">No note will be sent, though WooCommerce may still email the customer for this status.</p>
+          )}
+          {notifyCustomer && note.trim() && (
+            <p className="bg-white rounded p-3 shadow-sm whitespace-pre-wrap">{note.trim()}</p>
+          )}
+        </div>
+      ) : (
+        <>
+          <label className="block text-sm font-medium text-gray-700">
+            New status
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value)}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            >
+              {!statuses.some(s => s.slug === currentStatus) && (
+                <option value={currentStatus}>{currentStatus}</option>
+              )}
+              {statuses.map(s => (
+                <option key={s.slug} value={s.slug}>{s.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={notifyCustomer}
+              onChange={(e) => setNotifyCustomer(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 mr-2"
+            />
+            Notify the customer with a note
+          </label>
+
+          {notifyCustomer && (
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              placeholder="Note emailed to the customer"
+              className="w-full text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            />
+          )}
+        </>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={confirming ? () => setConfirming(false) : onDone}
+          disabled={saving}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {confirming ? 'Back' : 'Cancel'}
+        </button>
+        {confirming ? (
+          <button
+            type="button"
+            onClick={handleConfirm}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Confirm'}
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirming(true)}
+            disabled={status === currentStatus || (notifyCustomer && !note.trim())}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            Change Status
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChangeOrderStatus;
@@ -1,97 +1,142 @@
-import React, { useState, useEffect } from 'react';
-import { AlertCircle, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  AlertCircle,
+  RefreshCw,
+  Download,
+  Upload,
+  Play,
+  Trash2,
+  ArrowDownLeft,
+  ArrowUpRight,
+  ChevronDown,
+  ChevronRight,
+  History
+} from 'lucide-react';
+import { useChatwoot } from '../context/ChatwootContext';
+import ChatwootBridge, { ChatwootBridgeMessage } from '../services/chatwootBridge';
+import ChatwootRecorder, { RecordedSession } from '../services/chatwootRecorder';
 
-interface ChatwootData {
-  conversation?: {
-    id: number;
-    messages: any[];
-  };
-  [key: string]: any;
-}
+const formatPayload = (data: unknown): string => {
+  if (typeof data !== 'string') return JSON.stringify(data, null, 2);
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+};
 
 const ChatwootDebug: React.FC = () => {
-  const [chatwootData, setChatwootData] = useState<ChatwootData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const { appContext, status, error, requestContext } = useChatwoot();
+  const [events, setEvents] = useState<ChatwootBridgeMessage[]>(() => ChatwootRecorder.getEvents());
+  const [importedSession, setImportedSession] = useState<RecordedSession | null>(null);
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+  const [preserveTiming, setPreserveTiming] = useState(true);
+  const [replayProgress, setReplayProgress] = useState<{ replayed: number; total: number } | null>(null);
+  const [debugError, setDebugError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isLoading = status === 'waiting';
+  const isReplaying = replayProgress !== null && replayProgress.replayed < replayProgress.total;
 
   useEffect(() => {
-    window.addEventListener("message", handleChatwootMessage);
-    return () => {
-      window.removeEventListener("message", handleChatwootMessage);
-    };
+    return ChatwootRecorder.subscribe(setEvents);
   }, []);
 
-  const handleChatwootMessage = (event: MessageEvent) => {
+  const displayedEvents = importedSession ? importedSession.events : events;
+
+  const handleExport = () => {
+    const blob = new Blob([ChatwootRecorder.exportSession(displayedEvents)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `chatwoot-session-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
     try {
-      let eventData: ChatwootData;
-      if (typeof event.data === 'string') {
-        eventData = JSON.parse(event.data);
-      } else if (typeof event.data === 'object') {
-        eventData = event.data;
-      } else {
-        throw new Error('Invalid data format');
-      }
-      
-      setChatwootData(eventData);
-      setError(null);
-      setIsLoading(false);
+      setImportedSession(ChatwootRecorder.importSession(await file.text()));
+      setExpandedIndex(null);
+      setReplayProgress(null);
+      setDebugError(null);
     } catch (err) {
-      console.error("Error handling Chatwoot data:", err);
-      setError("Failed to process Chatwoot data. Please try again.");
-      setIsLoading(false);
+      setDebugError(err instanceof Error ? err.message : 'Failed to import session');
     }
   };
 
-  const fetchChatwootData = () => {
-    setIsLoading(true);
-    setError(null);
+  const handleReplay = async () => {
+    setDebugError(null);
+    setReplayProgress({ replayed: 0, total: displayedEvents.filter(event => event.direction === 'inbound').length });
     try {
-      window.parent.postMessage('chatwoot-dashboard-app:fetch-info', '*');
-      setTimeout(() => {
-        if (!chatwootData) {
-          setError("No response received from Chatwoot. Please try again.");
-          setIsLoading(false);
-        }
-      }, 5000); // 5-second timeout
+      await ChatwootRecorder.replay(displayedEvents, { preserveTiming }, (replayed, total) => {
+        setReplayProgress({ replayed, total });
+      });
     } catch (err) {
-      console.error("Error requesting Chatwoot data:", err);
-      setError("Failed to request Chatwoot data. Please try again.");
-      setIsLoading(false);
+      setDebugError(err instanceof Error ? err.message : 'Replay failed');
+      setReplayProgress(null);
     }
   };
 
-  const renderChatwootData = () => {
-    if (!chatwootData) return <p>No Chatwoot data received yet.</p>;
+  const handleClear = () => {
+    if (importedSession) {
+      setImportedSession(null);
+    } else {
+      ChatwootRecorder.clear();
+    }
+    setExpandedIndex(null);
+    setReplayProgress(null);
+  };
 
-    return (
-      <div>
-        {chatwootData.conversation ? (
-          <>
-            <p>Conversation ID: {chatwootData.conversation.id}</p>
-            <p>Number of messages: {chatwootData.conversation.messages.length}</p>
-          </>
-        ) : (
-          <p>No conversation data available.</p>
+  const renderEvent = (event: ChatwootBridgeMessage, index: number) => (
+    <li key={index} className="py-2">
+      <button
+        onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+        className="w-full flex items-center text-left text-sm"
+      >
+        {expandedIndex === index
+          ? <ChevronDown className="w-4 h-4 mr-1 text-gray-400 flex-shrink-0" />
+          : <ChevronRight className="w-4 h-4 mr-1 text-gray-400 flex-shrink-0" />}
+        <span className="text-gray-500 w-28 flex-shrink-0">
+          {new Date(event.timestamp).toLocaleTimeString()}
+        </span>
+        {event.direction === 'inbound'
+          ? <ArrowDownLeft className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+          : <ArrowUpRight className="w-4 h-4 mr-2 text-purple-600 flex-shrink-0" />}
+        <span className="truncate flex-1 text-gray-700">{event.origin}</span>
+        {event.replayed && (
+          <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">replayed</span>
         )}
-        <h3 className="mt-4 font-semibold">Received Data:</h3>
-        <pre className="mt-2 bg-gray-100 p-4 rounded-md overflow-auto">
-          {JSON.stringify(chatwootData, null, 2)}
-        </pre>
-      </div>
-    );
-  };
+        <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+          event.accepted ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+        }`}>
+          {event.accepted ? (event.direction === 'inbound' ? 'accepted' : 'sent') : 'rejected'}
+        </span>
+      </button>
+      {expandedIndex === index && (
+        <div className="mt-2 ml-5">
+          {event.error && <p className="text-sm text-red-600 mb-1">{event.error}</p>}
+          <pre className="bg-gray-100 p-3 rounded-md overflow-auto text-xs max-h-96">
+            {formatPayload(event.data)}
+          </pre>
+        </div>
+      )}
+    </li>
+  );
 
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold text-gray-800">Chatwoot Debug</h1>
-      
-      {error && (
+
+      {(error || debugError) && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
           <div className="flex">
             <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
             <div>
               <p className="font-bold">Error</p>
-              <p>{error}</p>
+              <p>{debugError || error}</p>
             </div>
           </div>
         </div>
@@ -99,9 +144,25 @@ const ChatwootDebug: React.FC = () => {
 
       <div className="bg-white shadow-md rounded-lg p-6">
         <h2 className="text-xl font-semibold mb-4">Chatwoot Data</h2>
-        {renderChatwootData()}
+        <p className="text-sm text-gray-500 mb-4">
+          Accepting messages from: {ChatwootBridge.getAllowedOrigin() ?? 'no Chatwoot host configured'}
+        </p>
+        {appContext ? (
+          <div>
+            <p>Conversation ID: {appContext.conversation.id}</p>
+            <p>Number of messages: {appContext.conversation.messages.length}</p>
+            <p>Contact: {appContext.contact.name} (#{appContext.contact.id})</p>
+            <p>Agent: {appContext.currentAgent.name} (#{appContext.currentAgent.id})</p>
+            <h3 className="mt-4 font-semibold">Parsed App Context:</h3>
+            <pre className="mt-2 bg-gray-100 p-4 rounded-md overflow-auto">
+              {JSON.stringify(appContext, null, 2)}
+            </pre>
+          </div>
+        ) : (
+          <p>No Chatwoot data received yet.</p>
+        )}
         <button
-          onClick={fetchChatwootData}
+          onClick={requestContext}
           disabled={isLoading}
           className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
         >
@@ -113,8 +174,81 @@ const ChatwootDebug: React.FC = () => {
           Fetch Chatwoot Data
         </button>
       </div>
+
+      <div className="bg-white shadow-md rounded-lg p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold flex items-center">
+            <History className="w-5 h-5 mr-2 text-gray-500" />
+            {importedSession ? 'Imported Session' : 'Recorded Messages'}
+            <span className="ml-2 text-sm font-normal text-gray-500">({displayedEvents.length})</span>
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleExport}
+              disabled={displayedEvents.length === 0}
+              className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleImport}
+              className="hidden"
+            />
+            <button
+              onClick={handleReplay}
+              disabled={isReplaying || !displayedEvents.some(event => event.direction === 'inbound')}
+              className="flex items-center px-3 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+            >
+              <Play className="w-4 h-4 mr-1" />
+              {isReplaying ? `Replaying ${replayProgress?.replayed}/${replayProgress?.total}` : 'Replay'}
+            </button>
+            <button
+              onClick={handleClear}
+              className="flex items-center px-3 py-2 text-sm text-red-600 hover:text-red-800"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              {importedSession ? 'Close Session' : 'Clear'}
+            </button>
+          </div>
+        </div>
+
+        <label className="flex items-center mb-4 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={preserveTiming}
+            onChange={(e) => setPreserveTiming(e.target.checked)}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Preserve original timing when replaying
+        </label>
+
+        {importedSession && (
+          <p className="text-sm text-gray-500 mb-4">
+            Exported {new Date(importedSession.exportedAt).toLocaleString()} from {importedSession.appUrl}
+          </p>
+        )}
+
+        {displayedEvents.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {displayedEvents.map(renderEvent)}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">No messages recorded yet.</p>
+        )}
+      </div>
     </div>
   );
 };
 
-export default ChatwootDebug;
\ No newline at end of file
+export default ChatwootDebug;
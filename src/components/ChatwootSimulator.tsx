@@ -0,0 +1,387 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertCircle, Send, RotateCcw, Save, MonitorSmartphone, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
+import { APP_CONTEXT_EVENT, FETCH_INFO_MESSAGE, ChatwootAppContext, parseAppContextEvent } from '../services/chatwootBridge';
+
+interface SimulatorLogEntry {
+  timestamp: string;
+  direction: 'inbound' | 'outbound';
+  summary: string;
+}
+
+const FIXTURES_STORAGE_KEY = 'chatwoot_simulator_fixtures';
+
+const PANEL_WIDTHS = {
+  sidebar: 400,
+  wide: 720,
+  full: 0
+};
+
+const DEFAULT_FIXTURES: ChatwootAppContext = {
+  conversation: {
+    id: 1042,
+    account_id: 1,
+    inbox_id: 3,
+    status: 'open',
+    labels: ['support'],
+    custom_attributes: {},
+    messages: [
+      {
+        id: 90211,
+        content: 'Hi, where is my order?',
+        message_type: 0,
+        created_at: Math.floor(Date.now() / 1000) - 600,
+        private: false
+      }
+    ]
+  },
+  contact: {
+    id: 311,
+    name: 'Jane Cooper',
+    email: 'jane.cooper@example.com',
+    phone_number: '+15550102030',
+    identifier: null,
+    additional_attributes: {},
+    custom_attributes: {}
+  },
+  currentAgent: {
+    id: 7,
+    name: 'Alex Support',
+    email: 'alex@example.com'
+  }
+};
+
+const loadFixtures = (): ChatwootAppContext => {
+  const fixturesJson = localStorage.getItem(FIXTURES_STORAGE_KEY);
+  return fixturesJson ? JSON.parse(fixturesJson) : DEFAULT_FIXTURES;
+};
+
+const ChatwootSimulator: React.FC = () => {
+  const [fixtures, setFixtures] = useState<ChatwootAppContext>(loadFixtures);
+  const [rawJson, setRawJson] = useState(() => JSON.stringify(loadFixtures(), null, 2));
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const [autoRespond, setAutoRespond] = useState(true);
+  const [responseDelay, setResponseDelay] = useState(0);
+  const [appPath, setAppPath] = useState('/');
+  const [panelWidth, setPanelWidth] = useState<keyof typeof PANEL_WIDTHS>('sidebar');
+  const [log, setLog] = useState<SimulatorLogEntry[]>([]);
+  const [saved, setSaved] = useState(false);
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const fixturesRef = useRef(fixtures);
+  fixturesRef.current = fixtures;
+
+  const addLog = (direction: SimulatorLogEntry['direction'], summary: string) => {
+    setLog(prev => [{ timestamp: new Date().toISOString(), direction, summary }, ...prev].slice(0, 50));
+  };
+
+  const pushContext = (context: ChatwootAppContext = fixturesRef.current) => {
+    const frame = iframeRef.current?.contentWindow;
+    if (!frame) return;
+    // Chatwoot sends the event as a JSON string, so the simulator does too.
+    frame.postMessage(JSON.stringify({ event: APP_CONTEXT_EVENT, data: context }), window.location.origin);
+    addLog('outbound', `appContext for conversation #${context.conversation.id}, contact ${context.contact.name || context.contact.id}`);
+  };
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow || event.origin !== window.location.origin) return;
+
+      if (event.data === FETCH_INFO_MESSAGE) {
+        addLog('inbound', FETCH_INFO_MESSAGE);
+        if (autoRespond) {
+          window.setTimeout(() => pushContext(), responseDelay);
+        }
+      } else {
+        addLog('inbound', typeof event.data === 'string' ? event.data : JSON.stringify(event.data));
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener('message', handleMessage);
+    };
+  }, [autoRespond, responseDelay]);
+
+  const updateFixtures = (next: ChatwootAppContext) => {
+    setFixtures(next);
+    setRawJson(JSON.stringify(next, null, 2));
+    setJsonError(null);
+    setSaved(false);
+  };
+
+  const updateSection = <K extends keyof ChatwootAppContext>(
+    section: K,
+    updates: Partial<ChatwootAppContext[K]>
+  ) => {
+    updateFixtures({ ...fixtures, [section]: { ...fixtures[section], ...updates } });
+  };
+
+  const applyRawJson = () => {
+    let data: unknown;
+    try {
+      data = JSON.parse(rawJson);
+    } catch {
+      setJsonError('Payload is not valid JSON');
+      return;
+    }
+
+    // Run the fixtures through the same validation the app applies to real Chatwoot messages.
+    const result = parseAppContextEvent({ event: APP_CONTEXT_EVENT, data });
+    if (!result.valid) {
+      setJsonError(result.error);
+      return;
+    }
+    updateFixtures(result.value);
+  };
+
+  const handleSave = () => {
+    localStorage.setItem(FIXTURES_STORAGE_KEY, JSON.stringify(fixtures));
+    setSaved(true);
+  };
+
+  const handleReset = () => {
+    localStorage.removeItem(FIXTURES_STORAGE_KEY);
+    updateFixtures(DEFAULT_FIXTURES);
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-800">Chatwoot Simulator</h1>
+          <p className="text-sm text-gray-500">
+            Development only. Hosts the app in an iframe and answers {FETCH_INFO_MESSAGE} like Chatwoot would.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={() => pushContext()}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            Push Context
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <div className="bg-white shadow-md rounded-lg p-6 space-y-4">
+            <h2 className="text-lg font-semibold">Contact</h2>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                ID
+                <input
+                  type="number"
+                  value={fixtures.contact.id}
+                  onChange={(e) => updateSection('contact', { id: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Name
+                <input
+                  type="text"
+                  value={fixtures.contact.name}
+                  onChange={(e) => updateSection('contact', { name: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Email
+                <input
+                  type="email"
+                  value={fixtures.contact.email || ''}
+                  onChange={(e) => updateSection('contact', { email: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Phone
+                <input
+                  type="tel"
+                  value={fixtures.contact.phone_number || ''}
+                  onChange={(e) => updateSection('contact', { phone_number: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            <h2 className="text-lg font-semibold pt-2">Agent</h2>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                Name
+                <input
+                  type="text"
+                  value={fixtures.currentAgent.name}
+                  onChange={(e) => updateSection('currentAgent', { name: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Email
+                <input
+                  type="email"
+                  value={fixtures.currentAgent.email}
+                  onChange={(e) => updateSection('currentAgent', { email: e.target.value })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            <h2 className="text-lg font-semibold pt-2">Conversation</h2>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block text-sm font-medium text-gray-700">
+                ID
+                <input
+                  type="number"
+                  value={fixtures.conversation.id}
+                  onChange={(e) => updateSection('conversation', { id: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Status
+                <select
+                  value={fixtures.conversation.status}
+                  onChange={(e) => updateSection('conversation', { status: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="open">open</option>
+                  <option value="pending">pending</option>
+                  <option value="snoozed">snoozed</option>
+                  <option value="resolved">resolved</option>
+                </select>
+              </label>
+            </div>
+
+            <div className="flex justify-between pt-2">
+              <button
+                onClick={handleReset}
+                className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+              >
+                <RotateCcw className="w-4 h-4 mr-1" />
+                Reset to defaults
+              </button>
+              <div className="flex items-center space-x-3">
+                {saved && <span className="text-sm text-green-600">Saved</span>}
+                <button
+                  onClick={handleSave}
+                  className="flex items-center px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200"
+                >
+                  <Save className="w-4 h-4 mr-1" />
+                  Save fixtures
+                </button>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white shadow-md rounded-lg p-6 space-y-3">
+            <h2 className="text-lg font-semibold">Raw Payload</h2>
+            {jsonError && (
+              <p className="flex items-center text-sm text-red-600">
+                <AlertCircle className="w-4 h-4 mr-1" />
+                {jsonError}
+              </p>
+            )}
+            <textarea
+              value={rawJson}
+              onChange={(e) => setRawJson(e.target.value)}
+              rows={14}
+              className="w-full font-mono text-xs rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            />
+            <button
+              onClick={applyRawJson}
+              className="px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600"
+            >
+              Apply JSON
+            </button>
+          </div>
+
+          <div className="bg-white shadow-md rounded-lg p-6 space-y-3">
+            <h2 className="text-lg font-semibold">Behaviour</h2>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={autoRespond}
+                onChange={(e) => setAutoRespond(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+              />
+              Answer fetch-info requests
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Response delay (ms)
+              <input
+                type="number"
+                min={0}
+                step={100}
+                value={responseDelay}
+                onChange={(e) => setResponseDelay(Math.max(0, parseInt(e.target.value) || 0))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div className="xl:col-span-2 space-y-6">
+          <div className="bg-white shadow-md rounded-lg p-4">
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <MonitorSmartphone className="w-5 h-5 text-gray-500" />
+              <input
+                type="text"
+                value={appPath}
+                onChange={(e) => setAppPath(e.target.value)}
+                className="flex-1 min-w-[8rem] rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+              />
+              <select
+                value={panelWidth}
+                onChange={(e) => setPanelWidth(e.target.value as keyof typeof PANEL_WIDTHS)}
+                className="rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+              >
+                <option value="sidebar">Sidebar (400px)</option>
+                <option value="wide">Wide (720px)</option>
+                <option value="full">Full width</option>
+              </select>
+            </div>
+            <div className="bg-gray-200 rounded-md p-2 overflow-auto">
+              <iframe
+                ref={iframeRef}
+                src={appPath.startsWith('/') ? appPath : `/${appPath}`}
+                title="Dashboard app"
+                className="bg-white rounded shadow mx-auto block"
+                style={{
+                  width: PANEL_WIDTHS[panelWidth] ? `${PANEL_WIDTHS[panelWidth]}px` : '100%',
+                  height: '720px'
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="bg-white shadow-md rounded-lg p-6">
+            <h2 className="text-lg font-semibold mb-3">Message Log</h2>
+            {log.length === 0 ? (
+              <p className="text-sm text-gray-500">No messages exchanged yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {log.map((entry, index) => (
+                  <li key={index} className="flex items-center py-2">
+                    <span className="text-gray-500 w-28 flex-shrink-0">
+                      {new Date(entry.timestamp).toLocaleTimeString()}
+                    </span>
+                    {entry.direction === 'inbound'
+                      ? <ArrowDownLeft className="w-4 h-4 mr-2 text-blue-600 flex-shrink-0" />
+                      : <ArrowUpRight className="w-4 h-4 mr-2 text-purple-600 flex-shrink-0" />}
+                    <span className="truncate text-gray-700">{entry.summary}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatwootSimulator;
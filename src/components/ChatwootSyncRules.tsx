@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Plus, X, Tag } from 'lucide-react';
+import {
+  getContactSyncSettings,
+  saveContactSyncSettings,
+  ContactSyncSettings,
+  LabelRule,
+  LabelRuleField,
+  LabelRuleOperator,
+  LABEL_RULE_FIELDS
+} from '../services/chatwootSync';
+
+const ChatwootSyncRules: React.FC = () => {
+  const [settings, setSettings] = useState<ContactSyncSettings>(getContactSyncSettings);
+  const [saved, setSaved] = useState(false);
+
+  const updateSettings = (updates: Partial<ContactSyncSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+    setSaved(false);
+  };
+
+  const updateRule = (ruleId: string, updates: Partial<LabelRule>) => {
+    updateSettings({
+      rules: settings.rules.map(rule => (rule.id === ruleId ? { ...rule, ...updates } : rule))
+    });
+  };
+
+  const addRule = () => {
+    updateSettings({
+      rules: [
+        ...settings.rules,
+        { id: crypto.randomUUID(), label: '', field: 'orderCount', operator: 'gte', value: 1, enabled: true }
+      ]
+    });
+  };
+
+  const removeRule = (ruleId: string) => {
+    updateSettings({ rules: settings.rules.filter(rule => rule.id !== ruleId) });
+  };
+
+  const handleSave = () => {
+    saveContactSyncSettings(settings);
+    setSaved(true);
+  };
+
+  return (
+    <div className="mt-8 border-t pt-6">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2 flex items-center">
+        <Tag className="w-5 h-5 mr-2 text-gray-500" />
+        Contact Sync
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Matched WooCommerce customers are written to the Chatwoot contact as the custom attributes
+        woo_store, woo_customer_id, woo_order_count, woo_lifetime_spend, woo_lifetime_spend_currency
+        and woo_last_order_date. Spend across stores in different currencies is converted into the
+        base currency set under WooCommerce Settings. Labels below are applied when their rule matches and removed when it no longer does.
+      </p>
+
+      <label className="flex items-center mb-4 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={settings.autoSync}
+          onChange={(e) => updateSettings({ autoSync: e.target.checked })}
+          className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+        />
+        Sync automatically when a contact is matched
+      </label>
+
+      <div className="space-y-2">
+        {settings.rules.map(rule => (
+          <div key={rule.id} className="flex flex-wrap items-center gap-2 bg-gray-50 rounded-md p-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              title="Enabled"
+            />
+            <input
+              type="text"
+              value={rule.label}
+              onChange={(e) => updateRule(rule.id, { label: e.target.value })}
+              placeholder="label"
+              className="w-36 rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            />
+            <span className="text-sm text-gray-500">when</span>
+            <select
+              value={rule.field}
+              onChange={(e) => updateRule(rule.id, { field: e.target.value as LabelRuleField })}
+              className="rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            >
+              {Object.entries(LABEL_RULE_FIELDS).map(([field, label]) => (
+                <option key={field} value={field}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={rule.operator}
+              onChange={(e) => updateRule(rule.id, { operator: e.target.value as LabelRuleOperator })}
+              className="rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            >
+              <option value="gte">≥</option>
+              <option value="lte">≤</option>
+            </select>
+            <input
+              type="number"
+              value={rule.value}
+              onChange={(e) => updateRule(rule.id, { value: parseFloat(e.target.value) || 0 })}
+              className="w-24 rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            />
+            <button
+              onClick={() => removeRule(rule.id)}
+              className="p-1 text-red-500 hover:text-red-700"
+              title="Remove rule"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mt-4">
+        <button
+          onClick={addRule}
+          className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add label rule
+        </button>
+        <div className="flex items-center space-x-3">
+          {saved && <span className="text-sm text-green-600">Saved</span>}
+          <button
+            onClick={handleSave}
+            className="py-2 px-4 rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          >
+            Save Sync Rules
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatwootSyncRules;
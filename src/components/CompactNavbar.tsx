@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react';
+import { Link, NavLink, useLocation } from 'react-router-dom';
+import {
+  Home,
+  User,
+  Search,
+  Package,
+  ShoppingBag,
+  Bug,
+  Users,
+  Building2,
+  Ticket,
+  DatabaseBackup,
+  Lock,
+  MessageSquare,
+  MonitorSmartphone,
+  Menu,
+  X
+} from 'lucide-react';
+
+const tabs = [
+  { to: '/', label: 'Contact', icon: Home },
+  { to: '/all-orders', label: 'Orders', icon: ShoppingBag },
+  { to: '/all-products', label: 'Products', icon: Package },
+  { to: '/user-search', label: 'Search', icon: Search }
+];
+
+const menuLinkClass = 'flex items-center px-4 py-3 text-base text-gray-700 hover:bg-gray-100 active:bg-gray-200';
+
+const CompactNavbar: React.FC = () => {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const location = useLocation();
+
+  useEffect(() => {
+    setMenuOpen(false);
+  }, [location.pathname]);
+
+  return (
+    <nav className="bg-white shadow-md sticky top-0 z-40">
+      <div className="flex items-stretch">
+        {tabs.map(({ to, label, icon: Icon }) => (
+          <NavLink
+            key={to}
+            to={to}
+            end={to === '/'}
+            className={({ isActive }) => `flex-1 flex flex-col items-center justify-center py-2 text-xs font-medium border-b-2 ${
+              isActive ? 'border-blue-600 text-blue-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <Icon className="w-5 h-5 mb-0.5" />
+            {label}
+          </NavLink>
+        ))}
+        <button
+          onClick={() => setMenuOpen(!menuOpen)}
+          className="flex flex-col items-center justify-center px-4 py-2 text-xs font-medium text-gray-600 border-b-2 border-transparent hover:text-gray-900"
+          aria-expanded={menuOpen}
+          aria-label="Menu"
+        >
+          {menuOpen ? <X className="w-5 h-5 mb-0.5" /> : <Menu className="w-5 h-5 mb-0.5" />}
+          More
+        </button>
+      </div>
+
+      {menuOpen && (
+        <>
+          <div className="fixed inset-0 top-14 bg-black bg-opacity-30" onClick={() => setMenuOpen(false)} />
+          <div className="absolute left-0 right-0 bg-white shadow-lg border-t border-gray-200 max-h-[70vh] overflow-y-auto">
+            <Link to="/coupons" className={menuLinkClass}>
+              <Ticket className="w-5 h-5 mr-3" />
+              Coupons
+            </Link>
+            <Link to="/erpnext-clients" className={menuLinkClass}>
+              <Users className="w-5 h-5 mr-3" />
+              ERPNext Clients
+            </Link>
+            <p className="px-4 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 border-t border-gray-100">
+              Settings
+            </p>
+            <Link to="/user-settings" className={menuLinkClass}>
+              <User className="w-5 h-5 mr-3" />
+              User Settings
+            </Link>
+            <Link to="/woocommerce-settings" className={menuLinkClass}>
+              <ShoppingBag className="w-5 h-5 mr-3" />
+              WooCommerce
+            </Link>
+            <Link to="/erpnext-settings" className={menuLinkClass}>
+              <Building2 className="w-5 h-5 mr-3" />
+              ERPNext
+            </Link>
+            <Link to="/chatwoot-settings" className={menuLinkClass}>
+              <MessageSquare className="w-5 h-5 mr-3" />
+              Chatwoot
+            </Link>
+            <Link to="/settings-backup" className={menuLinkClass}>
+              <DatabaseBackup className="w-5 h-5 mr-3" />
+              Backup
+            </Link>
+            <Link to="/security-settings" className={menuLinkClass}>
+              <Lock className="w-5 h-5 mr-3" />
+              Security
+            </Link>
+            <Link to="/chatwoot-debug" className={menuLinkClass}>
+              <Bug className="w-5 h-5 mr-3" />
+              Debug
+            </Link>
+            {import.meta.env.DEV && (
+              <Link to="/dev/chatwoot-simulator" className={menuLinkClass}>
+                <MonitorSmartphone className="w-5 h-5 mr-3" />
+                Simulator
+              </Link>
+            )}
+          </div>
+        </>
+      )}
+    </nav>
+  );
+};
+
+export default CompactNavbar;
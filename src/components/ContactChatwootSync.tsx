@@ -0,0 +1,115 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { RefreshCw, Tag, CheckCircle, AlertCircle } from 'lucide-react';
+import { ChatwootContact } from '../services/chatwootBridge';
+import { getChatwootConfig } from '../services/chatwoot';
+import { WooCommerceContactMatch } from '../services/contactMatching';
+import {
+  collectCommerceFacts,
+  getContactSyncSettings,
+  syncContactToChatwoot,
+  ContactSyncResult
+} from '../services/chatwootSync';
+import { formatMoney } from '../services/storeFormat';
+
+interface ContactChatwootSyncProps {
+  contact: ChatwootContact;
+  matches: WooCommerceContactMatch[];
+}
+
+const ContactChatwootSync: React.FC<ContactChatwootSyncProps> = ({ contact, matches }) => {
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ContactSyncResult | null>(null);
+  const config = getChatwootConfig();
+
+  const handleSync = useCallback(async () => {
+    const chatwootConfig = getChatwootConfig();
+    if (!chatwootConfig || matches.length === 0) return;
+
+    setSyncing(true);
+    setError(null);
+    try {
+      const facts = await Promise.all(matches.map(collectCommerceFacts));
+      const { rules } = getContactSyncSettings();
+      setResult(await syncContactToChatwoot(chatwootConfig, contact.id, facts, rules));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync contact');
+    } finally {
+      setSyncing(false);
+    }
+  }, [contact.id, matches]);
+
+  useEffect(() => {
+    setResult(null);
+    if (getContactSyncSettings().autoSync) {
+      handleSync();
+    }
+  }, [handleSync]);
+
+  if (matches.length === 0) return null;
+
+  if (!config) {
+    return (
+      <p className="text-xs text-gray-500">
+        <Link to="/chatwoot-settings" className="text-indigo-600 hover:text-indigo-800">Configure the Chatwoot API</Link> to sync these facts to the contact.
+      </p>
+    );
+  }
+
+  return (
+    <div className="border-t pt-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-700">Chatwoot contact sync</span>
+        <button
+          onClick={handleSync}
+          disabled={syncing}
+          className="flex items-center px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 mr-1 ${syncing ? 'animate-spin' : ''}`} />
+          {syncing ? 'Syncing...' : 'Sync to Chatwoot'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-1 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {result && (
+        <div className="text-sm text-gray-600 space-y-1">
+          <p className="flex items-center text-green-700">
+            <CheckCircle className="w-4 h-4 mr-1" />
+            Synced at {new Date(result.syncedAt).toLocaleTimeString()}
+          </p>
+          <p>
+            {String(result.attributes.woo_order_count)} orders, {formatMoney(
+              Number(result.attributes.woo_lifetime_spend),
+              null,
+              String(result.attributes.woo_lifetime_spend_currency)
+            )} lifetime spend
+            {result.missingRates.length > 0 && (
+              <span className="text-yellow-700">
+                {' '}(excluding {result.missingRates.join(', ')}: no exchange rate set)
+              </span>
+            )}
+          </p>
+          {result.labels.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {result.labels.map(label => (
+                <span key={label} className="inline-flex items-center px-2 py-0.5 bg-indigo-100 text-indigo-800 rounded-full text-xs">
+                  <Tag className="w-3 h-3 mr-1" />
+                  {label}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContactChatwootSync;
@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, ShoppingBag, User, Mail, Phone, Store, UserX, RefreshCw } from 'lucide-react';
+import WooCommerceService from '../services/woocommerce';
+import { ChatwootContact } from '../services/chatwootBridge';
+import { findWooCommerceMatches, WooCommerceLookupResult } from '../services/contactMatching';
+import { WooCommerceOrder } from '../services/wooCommerceClient';
+import { formatMoney, formatStoreDate } from '../services/storeFormat';
+import OrderDetails from './OrderDetails';
+import ContactChatwootSync from './ContactChatwootSync';
+
+interface ContactCommerceProfileProps {
+  contact: ChatwootContact;
+}
+
+const ContactCommerceProfile: React.FC<ContactCommerceProfileProps> = ({ contact }) => {
+  const [result, setResult] = useState<WooCommerceLookupResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedOrder, setSelectedOrder] = useState<WooCommerceOrder | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const lookup = async () => {
+      const servers = WooCommerceService.getServers().filter(server => server.isActive);
+      if (servers.length === 0) {
+        setError('No WooCommerce stores configured. Add one in the WooCommerce Settings page.');
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+      try {
+        const lookupResult = await findWooCommerceMatches(servers, contact);
+        if (!cancelled) setResult(lookupResult);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    lookup();
+    return () => {
+      cancelled = true;
+    };
+  }, [contact.id, contact.email, contact.phone_number, refreshKey]);
+
+  const hasIdentifiers = Boolean(contact.email || contact.phone_number);
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <ShoppingBag className="w-5 h-5 mr-2 text-gray-500" />
+          WooCommerce Customer
+        </h2>
+        <button
+          onClick={() => setRefreshKey(key => key + 1)}
+          disabled={loading}
+          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full disabled:opacity-50"
+          title="Search stores again"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {!hasIdentifiers && (
+        <p className="text-sm text-gray-500">
+          This contact has no email or phone number to match against your stores.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4" role="alert">
+          <div className="flex">
+            <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+            <div>
+              <p className="font-bold">Error</p>
+              <p>{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading && !result && (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {result && hasIdentifiers && (
+        <div className="space-y-4">
+          {result.matches.length === 0 && (
+            <p className="text-sm text-gray-500">
+              No customer or guest orders found for this contact in any store.
+            </p>
+          )}
+
+          {result.matches.map((match) => (
+            <div key={match.server.id} className="border rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start space-x-3">
+                  <div className="p-2 bg-blue-100 rounded-full">
+                    {match.customer ? (
+                      <User className="w-5 h-5 text-blue-600" />
+                    ) : (
+                      <UserX className="w-5 h-5 text-blue-600" />
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-semibold text-gray-800">
+                      {match.customer
+                        ? `${match.customer.first_name} ${match.customer.last_name}`.trim() || match.customer.username
+                        : 'Guest customer'}
+                    </p>
+                    {match.customer && (
+                      <div className="mt-1 space-y-1 text-sm text-gray-600">
+                        <p className="flex items-center">
+                          <Mail className="w-4 h-4 mr-2" />
+                          {match.customer.email}
+                        </p>
+                        {match.customer.billing?.phone && (
+                          <p className="flex items-center">
+                            <Phone className="w-4 h-4 mr-2" />
+                            {match.customer.billing.phone}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Customer #{match.customer.id} since {formatStoreDate(match.customer.date_created, match.server)}
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-col items-end space-y-1">
+                  <span className="inline-flex items-center px-2 py-0.5 bg-gray-100 text-gray-800 rounded-full text-xs font-medium">
+                    <Store className="w-3 h-3 mr-1" />
+                    {match.server.name}
+                  </span>
+                  <span className="text-xs text-gray-500">Matched by {match.matchedBy}</span>
+                </div>
+              </div>
+
+              {match.recentOrders.length > 0 && (
+                <ul className="mt-3 divide-y divide-gray-100 border-t">
+                  {match.recentOrders.map((order) => (
+                    <li
+                      key={order.id}
+                      onClick={() => setSelectedOrder(order)}
+                      className="flex items-center justify-between py-2 text-sm cursor-pointer hover:bg-gray-50"
+                    >
+                      <span className="font-medium text-indigo-600">#{order.number}</span>
+                      <span className={`px-2 text-xs leading-5 font-semibold rounded-full ${
+                        order.status === 'completed' ? 'bg-green-100 text-green-800' :
+                        order.status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                        order.status === 'on-hold' ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-gray-100 text-gray-800'
+                      }`}>
+                        {order.status}
+                      </span>
+                      <span className="text-gray-500">{formatStoreDate(order.date_created, match.server)}</span>
+                      <span className="text-gray-700">{formatMoney(order.total, match.server, order.currency)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          <ContactChatwootSync contact={contact} matches={result.matches} />
+
+          {result.errors.map(({ server, message }) => (
+            <p key={server.id} className="text-sm text-red-600">
+              Could not search {server.name}: {message}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {selectedOrder && (
+        <OrderDetails
+          order={selectedOrder}
+          onClose={() => setSelectedOrder(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ContactCommerceProfile;
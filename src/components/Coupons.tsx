@@ -1,9 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { AlertCircle, Plus, Search, Tag, Calendar, Percent, DollarSign, Users, RefreshCw } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { AlertCircle, Plus, Search, Tag, Calendar, Percent, Users, RefreshCw } from 'lucide-react';
 import WooCommerceService, { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
+import { isRequestCancelled } from '../services/requestScheduler';
 import StoreSelector from './StoreSelector';
+import RequestQueueStatus from './RequestQueueStatus';
+import SyncStatus from './SyncStatus';
+import StoreBadge from './StoreBadge';
 import CreateCouponModal from './CreateCouponModal';
-import axios from 'axios';
+import { formatMoney, formatStoreDate } from '../services/storeFormat';
+import { getPageFilters, getStoreSelection, savePageFilters, saveStoreSelection } from '../services/pageFilters';
+import { getCachedItems, getSyncStates, saveCachedItems, StoreSyncState } from '../services/storeCache';
 
 interface Coupon {
   id: number;
@@ -21,46 +28,96 @@ interface Coupon {
   };
 }
 
+interface CouponFilters {
+  searchTerm: string;
+}
+
 interface LoadingProgress {
   total: number;
   current: number;
   store: string;
 }
 
+const PAGE_KEY = 'coupons';
+
+/** Applies the search to cached coupons, which are shown before the store has answered. */
+const matchesSearch = (coupon: Coupon, term: string): boolean => {
+  const needle = term.trim().toLowerCase();
+  return !needle || coupon.code.toLowerCase().includes(needle) || (coupon.description || '').toLowerCase().includes(needle);
+};
+
 const Coupons: React.FC = () => {
+  const [savedFilters] = useState(() => getPageFilters<CouponFilters>(PAGE_KEY));
   const [coupons, setCoupons] = useState<Coupon[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingStatus, setLoadingStatus] = useState('Initializing...');
   const [loadingProgress, setLoadingProgress] = useState<LoadingProgress>({ total: 0, current: 0, store: '' });
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [searchTerm, setSearchTerm] = useState(savedFilters.searchTerm ?? '');
   const [servers, setServers] = useState<WooCommerceServer[]>([]);
   const [selectedServers, setSelectedServers] = useState<string[]>([]);
+  const [syncStates, setSyncStates] = useState<Record<string, StoreSyncState>>({});
+  const [failedServers, setFailedServers] = useState<string[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
 
+  // Aborted when the page unmounts, which drops its queued and running requests.
+  const requestController = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    requestController.current = controller;
+    return () => controller.abort();
+  }, []);
+
   useEffect(() => {
     const allServers = WooCommerceService.getServers();
     setServers(allServers);
-    setSelectedServers(allServers.filter(s => s.status === 'online').map(s => s.id));
+    setSelectedServers(getStoreSelection(PAGE_KEY, allServers));
   }, []);
 
+  useEffect(() => {
+    savePageFilters(PAGE_KEY, { searchTerm });
+  }, [searchTerm]);
+
   useEffect(() => {
     if (selectedServers.length > 0) {
+      loadCachedCoupons();
       fetchCoupons();
     }
   }, [selectedServers]);
 
+  // Renders the last fetched coupons straight away; fetchCoupons replaces them as stores answer.
+  const loadCachedCoupons = async () => {
+    setCoupons([]);
+    try {
+      const [cachedCoupons, states] = await Promise.all([
+        getCachedItems<Coupon>(selectedServers, 'coupons'),
+        getSyncStates(selectedServers, 'coupons')
+      ]);
+      setSyncStates(states);
+      // Stores that answered first already replaced their cached coupons.
+      setCoupons(prevCoupons => {
+        const answered = new Set(prevCoupons.map(coupon => coupon.store?.id));
+        return [
+          ...prevCoupons,
+          ...cachedCoupons.filter(coupon => !answered.has(coupon.store?.id) && matchesSearch(coupon, searchTerm))
+        ];
+      });
+    } catch (error) {
+      console.error('Error reading cached coupons:', error);
+    }
+  };
+
   const fetchCoupons = async () => {
     setLoading(true);
     setError(null);
     setLoadingProgress({ total: selectedServers.length, current: 0, store: '' });
-    setCoupons([]);
 
     try {
       setLoadingStatus('Connecting to stores...');
       const couponPromises = selectedServers.map(async (serverId, index) => {
         const server = servers.find(s => s.id === serverId);
-        if (!server) return [];
+        if (!server) return { serverId, coupons: [], failed: false };
 
         try {
           setLoadingProgress(prev => ({
@@ -70,34 +127,41 @@ const Coupons: React.FC = () => {
           }));
           setLoadingStatus(`Fetching coupons from ${server.name}...`);
 
-          const response = await axios.get(`${server.url}/wp-json/wc/v3/coupons`, {
-            auth: {
-              username: server.consumerKey,
-              password: server.consumerSecret
-            },
-            params: {
-              per_page: 100,
-              search: searchTerm
-            }
+          const couponsPage = await new WooCommerceClient(server, requestController.current?.signal).listCoupons<Coupon>({
+            per_page: 100,
+            search: searchTerm
           });
 
-          return response.data.map((coupon: Coupon) => ({
+          const storeCoupons = couponsPage.items.map(coupon => ({
             ...coupon,
             store: {
               id: server.id,
               name: server.name
             }
           }));
+
+          saveCachedItems(server.id, 'coupons', storeCoupons)
+            .then(state => setSyncStates(prev => ({ ...prev, [server.id]: state })))
+            .catch(error => console.error(`Error caching coupons from ${server.name}:`, error));
+
+          return { serverId, coupons: storeCoupons, failed: false };
         } catch (error) {
-          console.error(`Error fetching coupons from ${server.name}:`, error);
-          return [];
+          const cancelled = isRequestCancelled(error);
+          if (!cancelled) console.error(`Error fetching coupons from ${server.name}:`, error);
+          return { serverId, coupons: [], failed: !cancelled };
         }
       });
 
       setLoadingStatus('Processing coupon data...');
-      const allCouponsArrays = await Promise.all(couponPromises);
-      const allCoupons = allCouponsArrays.flat();
-      setCoupons(allCoupons);
+      const storeResults = await Promise.all(couponPromises);
+      const allCoupons = storeResults.flatMap(result => result.coupons);
+      // The coupon list is fetched whole, so it replaces what a store had; unreachable stores keep their cached coupons.
+      const refreshed = new Set(storeResults.filter(result => !result.failed).map(result => result.serverId));
+      setCoupons(prevCoupons => [
+        ...prevCoupons.filter(coupon => !refreshed.has(coupon.store?.id ?? '')),
+        ...allCoupons
+      ]);
+      setFailedServers(storeResults.filter(result => result.failed).map(result => result.serverId));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -105,8 +169,14 @@ const Coupons: React.FC = () => {
     }
   };
 
+  const handleStoreSelectionChange = (serverIds: string[]) => {
+    setSelectedServers(serverIds);
+    saveStoreSelection(PAGE_KEY, serverIds);
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    loadCachedCoupons();
     fetchCoupons();
   };
 
@@ -120,9 +190,9 @@ const Coupons: React.FC = () => {
       case 'percent':
         return `${coupon.amount}% off`;
       case 'fixed_cart':
-        return `$${coupon.amount} off cart`;
+        return `${formatMoney(coupon.amount, coupon.store)} off cart`;
       case 'fixed_product':
-        return `$${coupon.amount} off product`;
+        return `${formatMoney(coupon.amount, coupon.store)} off product`;
       default:
         return `${coupon.amount} off`;
     }
@@ -133,6 +203,8 @@ const Coupons: React.FC = () => {
     fetchCoupons();
   };
 
+  const serversById = useMemo(() => new Map(servers.map(server => [server.id, server])), [servers]);
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -163,7 +235,14 @@ const Coupons: React.FC = () => {
       <StoreSelector
         servers={servers}
         selectedServers={selectedServers}
-        onSelectionChange={setSelectedServers}
+        onSelectionChange={handleStoreSelectionChange}
+      />
+
+      <SyncStatus
+        servers={servers.filter(server => selectedServers.includes(server.id))}
+        syncStates={syncStates}
+        failedServerIds={failedServers}
+        refreshing={loading && coupons.length > 0}
       />
 
       {error && (
@@ -178,7 +257,7 @@ const Coupons: React.FC = () => {
         </div>
       )}
 
-      {loading && (
+      {loading && coupons.length === 0 && (
         <div className="flex flex-col items-center justify-center py-12">
           <div className="w-full max-w-sm bg-white rounded-lg shadow-md p-6">
             <div className="flex flex-col items-center space-y-4">
@@ -197,6 +276,7 @@ const Coupons: React.FC = () => {
                   Store: {loadingProgress.store} ({loadingProgress.current + 1} of {loadingProgress.total})
                 </p>
               )}
+              <RequestQueueStatus />
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
             </div>
           </div>
@@ -238,16 +318,11 @@ const Coupons: React.FC = () => {
                 {coupon.date_expires && (
                   <div className="flex items-center text-sm text-gray-600">
                     <Calendar className="w-4 h-4 mr-2" />
-                    <span>Expires: {new Date(coupon.date_expires).toLocaleDateString()}</span>
+                    <span>Expires: {formatStoreDate(coupon.date_expires, coupon.store)}</span>
                   </div>
                 )}
 
-                {coupon.store && (
-                  <div className="flex items-center text-sm text-gray-600">
-                    <DollarSign className="w-4 h-4 mr-2" />
-                    <span>Store: {coupon.store.name}</span>
-                  </div>
-                )}
+                {coupon.store && <StoreBadge store={coupon.store} server={serversById.get(coupon.store.id)} />}
               </div>
             </div>
           </div>
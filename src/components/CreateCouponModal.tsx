@@ -1,7 +1,8 @@
 import React, { useState } from 'react';
 import { X, AlertCircle } from 'lucide-react';
-import axios from 'axios';
-import { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceService, { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
+import { useLayout } from '../context/LayoutContext';
 
 interface CreateCouponModalProps {
   servers: WooCommerceServer[];
@@ -19,8 +20,14 @@ interface CouponData {
   date_expires?: string;
 }
 
+const PAGE_KEY = 'create-coupon';
+
 const CreateCouponModal: React.FC<CreateCouponModalProps> = ({ servers, onClose, onCouponCreated }) => {
-  const [selectedServer, setSelectedServer] = useState(servers[0]?.id || '');
+  const { compact } = useLayout();
+  const [selectedServer, setSelectedServer] = useState(() => {
+    const preferred = WooCommerceService.getActiveServer(PAGE_KEY);
+    return servers.find(s => s.id === preferred?.id)?.id || servers[0]?.id || '';
+  });
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [couponData, setCouponData] = useState<CouponData>({
@@ -50,20 +57,10 @@ const CreateCouponModal: React.FC<CreateCouponModalProps> = ({ servers, onClose,
         throw new Error('Please select a store');
       }
 
-      const response = await axios.post(
-        `${server.url}/wp-json/wc/v3/coupons`,
-        couponData,
-        {
-          auth: {
-            username: server.consumerKey,
-            password: server.consumerSecret
-          }
-        }
-      );
-
-      if (response.data) {
-        onCouponCreated();
-      }
+      await new WooCommerceClient(server).createCoupon(couponData);
+      // Remember the store so the next coupon starts there.
+      WooCommerceService.setPageServer(PAGE_KEY, server.id);
+      onCouponCreated();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create coupon');
     } finally {
@@ -73,11 +70,13 @@ const CreateCouponModal: React.FC<CreateCouponModalProps> = ({ servers, onClose,
 
   return (
     <div
-      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      className={`fixed inset-0 bg-black bg-opacity-50 flex justify-center z-50 ${
+        compact ? 'items-start overflow-y-auto' : 'items-center p-4'
+      }`}
       onClick={handleBackdropClick}
     >
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl">
-        <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+      <div className={`bg-white w-full ${compact ? 'min-h-full' : 'rounded-lg shadow-xl max-w-2xl'}`}>
+        <div className={`flex justify-between items-center border-b border-gray-200 ${compact ? 'px-3 py-2' : 'px-6 py-4'}`}>
           <h2 className="text-xl font-bold text-gray-800">Create New Coupon</h2>
           <button
             onClick={onClose}
@@ -87,7 +86,7 @@ const CreateCouponModal: React.FC<CreateCouponModalProps> = ({ servers, onClose,
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+        <form onSubmit={handleSubmit} className={compact ? 'p-3 space-y-4' : 'p-6 space-y-6'}>
           {error && (
             <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
               <div className="flex">
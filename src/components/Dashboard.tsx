@@ -1,93 +1,51 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
+import { Link } from 'react-router-dom';
 import { AlertCircle, RefreshCw } from 'lucide-react';
-
-interface ChatwootData {
-  event?: string;
-  data?: {
-    contact?: {
-      email?: string;
-      name?: string;
-    };
-    currentAgent?: {
-      email?: string;
-      name?: string;
-    };
-  };
-}
+import { useChatwoot } from '../context/ChatwootContext';
+import ContactCommerceProfile from './ContactCommerceProfile';
+import ContactERPNextProfile from './ERPNext/ContactERPNextProfile';
 
 const Dashboard: React.FC = () => {
-  const [chatwootData, setChatwootData] = useState<ChatwootData | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-
-  useEffect(() => {
-    window.addEventListener("message", handleChatwootMessage);
-    const timer = setTimeout(() => {
-      fetchChatwootData();
-    }, 5000);
-
-    return () => {
-      window.removeEventListener("message", handleChatwootMessage);
-      clearTimeout(timer);
-    };
-  }, []);
-
-  const handleChatwootMessage = (event: MessageEvent) => {
-    try {
-      let eventData: ChatwootData;
-      if (typeof event.data === 'string') {
-        eventData = JSON.parse(event.data);
-      } else if (typeof event.data === 'object') {
-        eventData = event.data;
-      } else {
-        throw new Error('Invalid data format');
-      }
-      
-      setChatwootData(eventData);
-      setError(null);
-      setIsLoading(false);
-    } catch (err) {
-      setError("Failed to process Chatwoot data. Please try again.");
-      setIsLoading(false);
-    }
-  };
-
-  const fetchChatwootData = () => {
-    setIsLoading(true);
-    setError(null);
-    try {
-      window.parent.postMessage('chatwoot-dashboard-app:fetch-info', '*');
-      setTimeout(() => {
-        if (!chatwootData) {
-          setError("No response received from Chatwoot. Please try again.");
-          setIsLoading(false);
-        }
-      }, 5000); // 5-second timeout
-    } catch (err) {
-      setError("Failed to request Chatwoot data. Please try again.");
-      setIsLoading(false);
-    }
-  };
+  const { appContext, status, error, isEmbedded, requestContext } = useChatwoot();
+  const isLoading = status === 'waiting';
 
   const renderChatwootData = () => {
-    if (!chatwootData || !chatwootData.data) return <p>No Chatwoot data received yet.</p>;
+    if (!appContext) {
+      return (
+        <div>
+          <p>No Chatwoot data received yet.</p>
+          {!isEmbedded && import.meta.env.DEV && (
+            <p className="mt-2 text-sm text-gray-500">
+              Not running inside Chatwoot. Open the{' '}
+              <Link to="/dev/chatwoot-simulator" className="text-blue-600 hover:text-blue-800">
+                Chatwoot simulator
+              </Link>{' '}
+              to load the app with sample conversation data.
+            </p>
+          )}
+        </div>
+      );
+    }
 
-    const contactEmail = chatwootData.data.contact?.email || 'Not available';
-    const contactName = chatwootData.data.contact?.name || 'Not available';
-    const agentEmail = chatwootData.data.currentAgent?.email || 'Not available';
-    const agentName = chatwootData.data.currentAgent?.name || 'Not available';
+    const { contact, currentAgent, conversation } = appContext;
 
     return (
       <div className="space-y-4">
         <div>
           <h3 className="text-lg font-semibold">Contact Information</h3>
-          <p><strong>Email:</strong> {contactEmail}</p>
-          <p><strong>Name:</strong> {contactName}</p>
+          <p><strong>Email:</strong> {contact.email || 'Not available'}</p>
+          <p><strong>Name:</strong> {contact.name || 'Not available'}</p>
+          <p><strong>Phone:</strong> {contact.phone_number || 'Not available'}</p>
         </div>
         <div>
           <h3 className="text-lg font-semibold">Current Agent</h3>
-          <p><strong>Email:</strong> {agentEmail}</p>
-          <p><strong>Name:</strong> {agentName}</p>
+          <p><strong>Email:</strong> {currentAgent.email || 'Not available'}</p>
+          <p><strong>Name:</strong> {currentAgent.name || 'Not available'}</p>
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold">Conversation</h3>
+          <p><strong>ID:</strong> {conversation.id}</p>
+          <p><strong>Status:</strong> {conversation.status}</p>
         </div>
       </div>
     );
@@ -96,7 +54,7 @@ const Dashboard: React.FC = () => {
   return (
     <div className="space-y-6">
       <h1 className="text-3xl font-bold text-gray-800">Dashboard</h1>
-      
+
       {error && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
           <div className="flex">
@@ -109,11 +67,19 @@ const Dashboard: React.FC = () => {
         </div>
       )}
 
+      {status === 'unconfigured' && (
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-4 text-sm">
+          No Chatwoot URL is configured, so messages from the embedding page are not trusted.{' '}
+          <Link to="/chatwoot-settings" className="font-medium underline">Set your Chatwoot URL</Link>{' '}
+          to load the conversation data.
+        </div>
+      )}
+
       <div className="bg-white shadow-md rounded-lg p-6">
         <h2 className="text-xl font-semibold mb-4">Chatwoot Data</h2>
         {renderChatwootData()}
         <button
-          onClick={fetchChatwootData}
+          onClick={requestContext}
           disabled={isLoading}
           className="mt-4 px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
         >
@@ -125,8 +91,15 @@ const Dashboard: React.FC = () => {
           Refresh Chatwoot Data
         </button>
       </div>
+
+      {appContext && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ContactCommerceProfile contact={appContext.contact} />
+          <ContactERPNextProfile contact={appContext.contact} />
+        </div>
+      )}
     </div>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
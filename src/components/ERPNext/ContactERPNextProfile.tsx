@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, Building2, User, Mail, Phone, Check, RefreshCw, ExternalLink } from 'lucide-react';
+import { ChatwootContact } from '../../services/chatwootBridge';
+import {
+  findERPNextCustomerMatches,
+  fetchClientDetails,
+  ERPNextCustomerMatch,
+  getERPNextConfig
+} from '../../services/erpnext';
+import { getRememberedERPNextCustomer, rememberERPNextCustomer } from '../../services/contactMatching';
+
+interface ContactERPNextProfileProps {
+  contact: ChatwootContact;
+}
+
+const ContactERPNextProfile: React.FC<ContactERPNextProfileProps> = ({ contact }) => {
+  const [matches, setMatches] = useState<ERPNextCustomerMatch[]>([]);
+  const [selectedName, setSelectedName] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isConfigured, setIsConfigured] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const lookup = async () => {
+      const config = getERPNextConfig();
+
+      if (!config) {
+        setIsConfigured(false);
+        return;
+      }
+      const { url, apiKey, apiSecret } = config;
+
+      setIsConfigured(true);
+      setLoading(true);
+      setError(null);
+
+      try {
+        const remembered = getRememberedERPNextCustomer(contact.id);
+        const found = await findERPNextCustomerMatches(url, apiKey, apiSecret, {
+          email: contact.email,
+          phone: contact.phone_number
+        });
+
+        // A remembered pick stays visible even if it no longer matches by email or phone.
+        if (remembered && !found.some(match => match.client.name === remembered)) {
+          const client = await fetchClientDetails(url, apiKey, apiSecret, remembered);
+          if (client) found.unshift({ client, matchedBy: [] });
+        }
+
+        if (!cancelled) {
+          setMatches(found);
+          setSelectedName(remembered ?? (found.length === 1 ? found[0].client.name : null));
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    lookup();
+    return () => {
+      cancelled = true;
+    };
+  }, [contact.id, contact.email, contact.phone_number, refreshKey]);
+
+  const handleSelect = (customerName: string | null) => {
+    rememberERPNextCustomer(contact.id, customerName);
+    setSelectedName(customerName);
+  };
+
+  const selectedMatch = matches.find(match => match.client.name === selectedName) || null;
+  const isAmbiguous = !selectedMatch && matches.length > 1;
+
+  const renderClient = (match: ERPNextCustomerMatch) => (
+    <div className="flex items-start space-x-3">
+      <div className="p-2 bg-blue-100 rounded-full">
+        <User className="w-5 h-5 text-blue-600" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <Link
+          to={`/erpnext-clients/${encodeURIComponent(match.client.name)}`}
+          className="inline-flex items-center font-semibold text-indigo-600 hover:text-indigo-800"
+        >
+          {match.client.customer_name}
+          <ExternalLink className="w-3 h-3 ml-1" />
+        </Link>
+        <p className="text-xs text-gray-500">
+          {match.client.name} · {match.client.customer_group}
+        </p>
+        <div className="mt-1 space-y-1 text-sm text-gray-600">
+          {match.client.email && (
+            <p className="flex items-center">
+              <Mail className="w-4 h-4 mr-2" />
+              {match.client.email}
+            </p>
+          )}
+          {(match.client.mobile_no || match.client.phone) && (
+            <p className="flex items-center">
+              <Phone className="w-4 h-4 mr-2" />
+              {match.client.mobile_no || match.client.phone}
+            </p>
+          )}
+        </div>
+        {match.matchedBy.length > 0 && (
+          <p className="mt-1 text-xs text-gray-500">Matched by {match.matchedBy.join(', ')}</p>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-white shadow-md rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <Building2 className="w-5 h-5 mr-2 text-gray-500" />
+          ERPNext Customer
+        </h2>
+        {isConfigured && (
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            disabled={loading}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-full disabled:opacity-50"
+            title="Search ERPNext again"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {!isConfigured && (
+        <p className="text-sm text-gray-500">
+          ERPNext is not configured. <Link to="/erpnext-settings" className="text-indigo-600 hover:text-indigo-800">Set it up</Link> to match contacts against customers.
+        </p>
+      )}
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 mb-4" role="alert">
+          <div className="flex">
+            <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+            <div>
+              <p className="font-bold">Error</p>
+              <p>{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {loading && matches.length === 0 && (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {isConfigured && !loading && !error && matches.length === 0 && (
+        <p className="text-sm text-gray-500">No ERPNext customer matches this contact's email or phone.</p>
+      )}
+
+      {selectedMatch && (
+        <div className="space-y-3">
+          {renderClient(selectedMatch)}
+          {matches.length > 1 && (
+            <button
+              onClick={() => handleSelect(null)}
+              className="text-sm text-gray-600 hover:text-gray-900"
+            >
+              Choose a different customer ({matches.length} matches)
+            </button>
+          )}
+        </div>
+      )}
+
+      {isAmbiguous && (
+        <div className="space-y-3">
+          <p className="text-sm text-yellow-800 bg-yellow-50 rounded-md p-3">
+            {matches.length} ERPNext customers match this contact. Pick the right one and it will be remembered for this contact.
+          </p>
+          {matches.map((match) => (
+            <div key={match.client.name} className="border rounded-lg p-4 flex items-start justify-between">
+              {renderClient(match)}
+              <button
+                onClick={() => handleSelect(match.client.name)}
+                className="ml-4 flex items-center px-3 py-1 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600"
+              >
+                <Check className="w-4 h-4 mr-1" />
+                Select
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContactERPNextProfile;
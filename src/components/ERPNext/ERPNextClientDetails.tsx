@@ -7,8 +7,10 @@ import {
   fetchClientComments,
   ERPNextClient,
   ERPNextOrder,
-  ERPNextComment
+  ERPNextComment,
+  getERPNextConfig
 } from '../../services/erpnext';
+import { isRequestCancelled } from '../../services/requestScheduler';
 
 const ERPNextClientDetails: React.FC = () => {
   const { clientId } = useParams<{ clientId: string }>();
@@ -19,6 +21,8 @@ const ERPNextClientDetails: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchData = async () => {
       if (!clientId) return;
 
@@ -26,24 +30,24 @@ const ERPNextClientDetails: React.FC = () => {
       setError(null);
 
       try {
-        const url = localStorage.getItem('erpnext_url');
-        const apiKey = localStorage.getItem('erpnext_api_key');
-        const apiSecret = localStorage.getItem('erpnext_api_secret');
+        const config = getERPNextConfig();
 
-        if (!url || !apiKey || !apiSecret) {
+        if (!config) {
           throw new Error('ERPNext settings are not configured. Please set them in the ERPNext Settings page.');
         }
+        const { url, apiKey, apiSecret } = config;
 
         const [clientData, ordersData, commentsData] = await Promise.all([
-          fetchClientDetails(url, apiKey, apiSecret, clientId),
-          fetchClientOrders(url, apiKey, apiSecret, clientId),
-          fetchClientComments(url, apiKey, apiSecret, clientId)
+          fetchClientDetails(url, apiKey, apiSecret, clientId, controller.signal),
+          fetchClientOrders(url, apiKey, apiSecret, clientId, controller.signal),
+          fetchClientComments(url, apiKey, apiSecret, clientId, controller.signal)
         ]);
 
         setClient(clientData);
         setOrders(ordersData);
         setComments(commentsData);
       } catch (err) {
+        if (isRequestCancelled(err)) return;
         setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       } finally {
         setLoading(false);
@@ -51,6 +55,7 @@ const ERPNextClientDetails: React.FC = () => {
     };
 
     fetchData();
+    return () => controller.abort();
   }, [clientId]);
 
   if (loading) {
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { AlertCircle, Search, User, Phone, Mail } from 'lucide-react';
-import { fetchERPNextClients, ERPNextClient } from '../../services/erpnext';
+import { fetchERPNextClients, ERPNextClient, getERPNextConfig } from '../../services/erpnext';
+import { isRequestCancelled } from '../../services/requestScheduler';
 
 const ERPNextClients: React.FC = () => {
   const [clients, setClients] = useState<ERPNextClient[]>([]);
@@ -10,22 +11,25 @@ const ERPNextClients: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    // Cancels the previous search when the query changes or the page unmounts.
+    const controller = new AbortController();
+
     const fetchClients = async () => {
       setLoading(true);
       setError(null);
 
       try {
-        const url = localStorage.getItem('erpnext_url');
-        const apiKey = localStorage.getItem('erpnext_api_key');
-        const apiSecret = localStorage.getItem('erpnext_api_secret');
+        const config = getERPNextConfig();
 
-        if (!url || !apiKey || !apiSecret) {
+        if (!config) {
           throw new Error('ERPNext settings are not configured. Please set them in the ERPNext Settings page.');
         }
+        const { url, apiKey, apiSecret } = config;
 
-        const data = await fetchERPNextClients(url, apiKey, apiSecret, searchQuery);
+        const data = await fetchERPNextClients(url, apiKey, apiSecret, searchQuery, undefined, controller.signal);
         setClients(data);
       } catch (err) {
+        if (isRequestCancelled(err)) return;
         setError(err instanceof Error ? err.message : 'An unexpected error occurred');
       } finally {
         setLoading(false);
@@ -33,7 +37,10 @@ const ERPNextClients: React.FC = () => {
     };
 
     const debounceTimer = setTimeout(fetchClients, 300);
-    return () => clearTimeout(debounceTimer);
+    return () => {
+      clearTimeout(debounceTimer);
+      controller.abort();
+    };
   }, [searchQuery]);
 
   return (
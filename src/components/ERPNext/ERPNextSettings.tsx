@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
-import { testERPNextConnection } from '../../services/erpnext';
+import { getERPNextConfig, saveERPNextConfig, testERPNextConnection } from '../../services/erpnext';
 
 interface DebugInfo {
   timestamp: string;
@@ -19,13 +19,16 @@ const ERPNextSettings: React.FC = () => {
   const [showDebug, setShowDebug] = useState(false);
 
   useEffect(() => {
+    const savedConfig = getERPNextConfig();
     const savedUrl = localStorage.getItem('erpnext_url');
-    const savedApiKey = localStorage.getItem('erpnext_api_key');
-    const savedApiSecret = localStorage.getItem('erpnext_api_secret');
 
-    if (savedUrl) setUrl(savedUrl);
-    if (savedApiKey) setApiKey(savedApiKey);
-    if (savedApiSecret) setApiSecret(savedApiSecret);
+    if (savedConfig) {
+      setUrl(savedConfig.url);
+      setApiKey(savedConfig.apiKey);
+      setApiSecret(savedConfig.apiSecret);
+    } else if (savedUrl) {
+      setUrl(savedUrl);
+    }
   }, []);
 
   const addDebugLog = (step: string, details: Record<string, unknown> = {}) => {
@@ -39,9 +42,7 @@ const ERPNextSettings: React.FC = () => {
   const handleSave = () => {
     try {
       addDebugLog('Saving settings', { url });
-      localStorage.setItem('erpnext_url', url);
-      localStorage.setItem('erpnext_api_key', apiKey);
-      localStorage.setItem('erpnext_api_secret', apiSecret);
+      saveERPNextConfig({ url, apiKey, apiSecret });
       setError(null);
       setTestResult({ success: true, message: 'Settings saved successfully!' });
       addDebugLog('Settings saved successfully');
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Banknote } from 'lucide-react';
+import { WooCommerceServer } from '../services/woocommerce';
+import { ExchangeRateSettings, getExchangeRates, saveExchangeRates } from '../services/exchangeRates';
+
+interface ExchangeRatesPanelProps {
+  servers: WooCommerceServer[];
+}
+
+const ExchangeRatesPanel: React.FC<ExchangeRatesPanelProps> = ({ servers }) => {
+  const [settings, setSettings] = useState<ExchangeRateSettings>(() => getExchangeRates());
+  // Rates are edited as text so partially typed numbers such as "0." survive re-renders.
+  const [drafts, setDrafts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(getExchangeRates().rates).map(([code, rate]) => [code, String(rate)])));
+
+  const storeCurrencies = servers
+    .map(server => server.storeLocale?.currency)
+    .filter((code): code is string => Boolean(code));
+  const currencies = Array.from(new Set([...storeCurrencies, ...Object.keys(settings.rates)]))
+    .filter(code => code !== settings.baseCurrency)
+    .sort();
+
+  const updateSettings = (next: ExchangeRateSettings) => {
+    setSettings(saveExchangeRates(next));
+  };
+
+  const handleBaseCurrencyChange = (value: string) => {
+    const baseCurrency = value.trim().toUpperCase();
+    if (/^[A-Z]{3}$/.test(baseCurrency)) {
+      updateSettings({ ...settings, baseCurrency });
+    }
+  };
+
+  const handleRateChange = (code: string, value: string) => {
+    setDrafts({ ...drafts, [code]: value });
+
+    const rates = { ...settings.rates };
+    const rate = parseFloat(value);
+    if (rate > 0) {
+      rates[code] = rate;
+    } else {
+      delete rates[code];
+    }
+    updateSettings({ ...settings, rates });
+  };
+
+  return (
+    <div className="mb-6 bg-gray-50 p-4 rounded-lg space-y-4">
+      <h3 className="text-lg font-semibold flex items-center">
+        <Banknote className="w-5 h-5 mr-2 text-gray-500" />
+        Exchange Rates
+      </h3>
+      <p className="text-sm text-gray-500">
+        Totals across stores in different currencies are converted into the base currency with these
+        rates. They are not updated automatically.
+      </p>
+      <label className="block text-sm font-medium text-gray-700 sm:w-1/3">
+        Base currency
+        <input
+          type="text"
+          defaultValue={settings.baseCurrency}
+          onBlur={(e) => handleBaseCurrencyChange(e.target.value)}
+          maxLength={3}
+          placeholder="USD"
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm uppercase focus:border-blue-300 focus:ring focus:ring-blue-200"
+        />
+      </label>
+      {currencies.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          All stores use {settings.baseCurrency}. Store currencies are read during the next status check.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {currencies.map(code => (
+            <label key={code} className="block text-sm font-medium text-gray-700">
+              1 {code} =
+              <div className="mt-1 flex items-center">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={drafts[code] ?? ''}
+                  onChange={(e) => handleRateChange(code, e.target.value)}
+                  placeholder="Not set"
+                  className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                />
+                <span className="ml-2 text-gray-500">{settings.baseCurrency}</span>
+              </div>
+            </label>
+          ))}
+        </div>
+      )}
+      {settings.updatedAt && (
+        <p className="text-xs text-gray-400">Last edited {new Date(settings.updatedAt).toLocaleString()}</p>
+      )}
+    </div>
+  );
+};
+
+export default ExchangeRatesPanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { WooCommerceServer } from '../services/woocommerce';
+
+interface FullSyncOfferProps {
+  /** Stores whose cache only holds the pages that were viewed. */
+  servers: WooCommerceServer[];
+  /** Plural noun for the listed items, e.g. `orders`. */
+  itemLabel: string;
+  downloading: boolean;
+  onDownload: () => void;
+}
+
+/**
+ * Offers to download every item of stores that are not synced yet. The first download can
+ * be large, so it only starts when asked for; afterwards only changes are fetched.
+ */
+const FullSyncOffer: React.FC<FullSyncOfferProps> = ({ servers, itemLabel, downloading, onDownload }) => {
+  if (servers.length === 0) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 bg-blue-50 rounded-md px-4 py-2 text-sm text-blue-800">
+      <span>
+        Only recent {itemLabel} of {servers.map(server => server.name).join(', ')} are kept offline.
+        Download them all once to browse the full list and fetch only changes afterwards.
+      </span>
+      <button
+        onClick={onDownload}
+        disabled={downloading}
+        className="flex items-center justify-center px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex-shrink-0"
+      >
+        <Download className={`w-4 h-4 mr-1 ${downloading ? 'animate-pulse' : ''}`} />
+        {downloading ? 'Downloading...' : `Download all ${itemLabel}`}
+      </button>
+    </div>
+  );
+};
+
+export default FullSyncOffer;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AlertCircle, Lock } from 'lucide-react';
+import CredentialVault from '../services/credentialVault';
+
+const LockScreen: React.FC = () => {
+  const [passphrase, setPassphrase] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError(null);
+
+    try {
+      await CredentialVault.unlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setUnlocking(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (window.confirm(
+      'This deletes every stored API key and token. Your stores and other settings are kept, but you will have to enter the keys and tokens again in the settings pages. Continue?'
+    )) {
+      CredentialVault.reset();
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 px-4">
+      <div className="w-full max-w-sm bg-white shadow-md rounded-lg px-6 py-8">
+        <div className="flex flex-col items-center mb-6">
+          <Lock className="w-10 h-10 text-gray-500 mb-2" />
+          <h2 className="text-xl font-bold text-gray-800">Dashboard locked</h2>
+          <p className="text-sm text-gray-500 text-center mt-1">
+            Enter the master passphrase to unlock the stored credentials.
+          </p>
+        </div>
+
+        {error && (
+          <p className="mb-4 flex items-center text-sm text-red-600" role="alert">
+            <AlertCircle className="w-4 h-4 mr-1" />
+            {error}
+          </p>
+        )}
+
+        <form onSubmit={handleUnlock} className="space-y-4">
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Master passphrase"
+            autoComplete="current-password"
+            autoFocus
+            className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+            required
+          />
+          <button
+            type="submit"
+            disabled={unlocking}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {unlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+        </form>
+
+        <button
+          onClick={handleReset}
+          className="mt-6 w-full text-center text-sm text-gray-500 hover:text-red-600"
+        >
+          Forgot the passphrase?
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
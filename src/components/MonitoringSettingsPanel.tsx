@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { Activity } from 'lucide-react';
+import ServerMonitor, {
+  formatInterval,
+  MonitoringSettings,
+  MonitorState,
+  MONITOR_INTERVAL_OPTIONS
+} from '../services/serverMonitor';
+
+const MonitoringSettingsPanel: React.FC = () => {
+  const [settings, setSettings] = useState<MonitoringSettings>(() => ServerMonitor.getSettings());
+  const [state, setState] = useState<MonitorState>(() => ServerMonitor.getState());
+
+  useEffect(() => {
+    return ServerMonitor.subscribe(setState);
+  }, []);
+
+  const updateSettings = (updates: Partial<MonitoringSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    ServerMonitor.saveSettings(next);
+  };
+
+  const statusText = !settings.enabled
+    ? 'Monitoring is turned off.'
+    : state.role === 'follower'
+    ? 'Another open tab is checking the stores; this tab shows its results.'
+    : state.role === 'stopped'
+    ? 'Monitoring is not running.'
+    : state.paused
+    ? 'Paused while this tab is in the background.'
+    : 'This tab is checking the stores.';
+
+  return (
+    <div className="mb-6 bg-gray-50 p-4 rounded-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center">
+          <Activity className="w-5 h-5 mr-2 text-gray-500" />
+          Status Monitoring
+        </h3>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => updateSettings({ enabled: e.target.checked })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Enabled
+        </label>
+      </div>
+      <p className="text-sm text-gray-500">{statusText}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Default interval
+          <select
+            value={settings.defaultInterval}
+            onChange={(e) => updateSettings({ defaultInterval: parseInt(e.target.value, 10) })}
+            disabled={!settings.enabled}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 disabled:opacity-50"
+          >
+            {MONITOR_INTERVAL_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>Every {formatInterval(seconds)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Back off failing stores up to
+          <select
+            value={settings.maxBackoff}
+            onChange={(e) => updateSettings({ maxBackoff: parseInt(e.target.value, 10) })}
+            disabled={!settings.enabled}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200 disabled:opacity-50"
+          >
+            {MONITOR_INTERVAL_OPTIONS.map(seconds => (
+              <option key={seconds} value={seconds}>{formatInterval(seconds)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center text-sm text-gray-700 sm:mt-6">
+          <input
+            type="checkbox"
+            checked={settings.pauseWhenHidden}
+            onChange={(e) => updateSettings({ pauseWhenHidden: e.target.checked })}
+            disabled={!settings.enabled}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Pause in background tabs
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default MonitoringSettingsPanel;
@@ -1,8 +1,14 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { Home, User, Settings, Search, Package, ShoppingBag, Bug, Users, Building2, Ticket } from 'lucide-react';
+import { Home, User, Settings, Search, Package, ShoppingBag, Bug, Users, Building2, Ticket, MessageSquare, MonitorSmartphone, DatabaseBackup, Lock } from 'lucide-react';
+import { useLayout } from '../context/LayoutContext';
+import CompactNavbar from './CompactNavbar';
 
 const Navbar: React.FC = () => {
+  const { compact } = useLayout();
+
+  if (compact) return <CompactNavbar />;
+
   return (
     <nav className="bg-white shadow-md">
       <div className="container mx-auto px-4">
@@ -53,10 +59,28 @@ const Navbar: React.FC = () => {
                     <Building2 className="w-4 h-4 inline mr-2" />
                     ERPNext
                   </Link>
+                  <Link to="/chatwoot-settings" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                    <MessageSquare className="w-4 h-4 inline mr-2" />
+                    Chatwoot
+                  </Link>
+                  <Link to="/settings-backup" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                    <DatabaseBackup className="w-4 h-4 inline mr-2" />
+                    Backup
+                  </Link>
+                  <Link to="/security-settings" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                    <Lock className="w-4 h-4 inline mr-2" />
+                    Security
+                  </Link>
                   <Link to="/chatwoot-debug" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
                     <Bug className="w-4 h-4 inline mr-2" />
                     Debug
                   </Link>
+                  {import.meta.env.DEV && (
+                    <Link to="/dev/chatwoot-simulator" className="block px-4 py-2 text-sm text-gray-700 hover:bg-gray-100">
+                      <MonitorSmartphone className="w-4 h-4 inline mr-2" />
+                      Simulator
+                    </Link>
+                  )}
                 </div>
               </div>
             </div>
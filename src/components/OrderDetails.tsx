@@ -1,5 +1,13 @@
-import React from 'react';
-import { Package, Calendar, User, Mail, Phone, MapPin, X, MessageSquare, UserCircle, Lock, MessageCircleMore } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { Package, Calendar, User, Mail, Phone, MapPin, X, MessageSquare, UserCircle, Lock, MessageCircleMore, Send, RefreshCw } from 'lucide-react';
+import SendOrderToConversation from './SendOrderToConversation';
+import ChangeOrderStatus from './ChangeOrderStatus';
+import OrderNoteComposer from './OrderNoteComposer';
+import { useLayout } from '../context/LayoutContext';
+import { formatMoney, formatStoreDate } from '../services/storeFormat';
+import WooCommerceService from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
+import { isRequestCancelled } from '../services/requestScheduler';
 
 interface OrderNote {
   id: number;
@@ -50,53 +58,146 @@ interface OrderDetailsProps {
     }>;
     shipping_total?: string;
     total_tax?: string;
+    discount_total?: string;
+    currency?: string;
+    currency_symbol?: string;
+    payment_method_title?: string;
+    shipping_lines?: Array<{
+      method_title: string;
+    }>;
+    meta_data?: Array<{
+      key: string;
+      value: unknown;
+    }>;
+    store?: {
+      id: string;
+      name: string;
+    };
   };
   onClose: () => void;
+  /** Lets the list show a status change before the store has confirmed it. */
+  onStatusChange?: (status: string) => void;
+  onNoteAdded?: (note: OrderNote) => void;
 }
 
-const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose }) => {
+const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose, onStatusChange, onNoteAdded }) => {
+  const { compact } = useLayout();
+  const [showSendPanel, setShowSendPanel] = useState(false);
+  const [showStatusPanel, setShowStatusPanel] = useState(false);
+  const [status, setStatus] = useState(order.status);
+  const [notes, setNotes] = useState<OrderNote[] | undefined>(order.notes);
+  const storeId = order.store?.id;
+  const server = useMemo(
+    () => storeId ? WooCommerceService.getServers().find(s => s.id === storeId) : undefined,
+    [storeId]
+  );
+
+  // Orders from the delta sync come without notes, so they are loaded when the order is opened.
+  useEffect(() => {
+    setNotes(order.notes);
+    setStatus(order.status);
+    if (order.notes || !server) return;
+
+    const controller = new AbortController();
+    new WooCommerceClient(server, controller.signal).getOrderNotes(order.id)
+      .then(setNotes)
+      .catch(error => {
+        if (!isRequestCancelled(error)) console.error('Error fetching order notes:', error);
+      });
+    return () => controller.abort();
+  }, [order, server]);
+
   const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.target === e.currentTarget) {
       onClose();
     }
   };
 
-  const adminNotes = order.notes?.filter(note => !note.customer_note) || [];
-  const customerNotes = order.notes?.filter(note => note.customer_note) || [];
+  const adminNotes = notes?.filter(note => !note.customer_note) || [];
+  const customerNotes = notes?.filter(note => note.customer_note) || [];
+  const handleStatusChange = (newStatus: string) => {
+    setStatus(newStatus);
+    onStatusChange?.(newStatus);
+  };
+
+  // WooCommerce lists notes newest first, so the new note goes on top without refetching the rest.
+  const handleNoteAdded = (note: OrderNote) => {
+    setNotes(prevNotes => [note, ...(prevNotes ?? [])]);
+    onNoteAdded?.(note);
+  };
+
   const hasNotes = adminNotes.length > 0 || customerNotes.length > 0 || order.customer_note;
 
   return (
     <div 
-      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center overflow-y-auto p-4 sm:p-6 z-50"
+      className={`fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center overflow-y-auto z-50 ${compact ? '' : 'p-4 sm:p-6'}`}
       onClick={handleBackdropClick}
     >
-      <div className="relative bg-white rounded-lg w-full max-w-4xl my-8">
+      <div className={`relative bg-white w-full ${compact ? 'min-h-full' : 'rounded-lg max-w-4xl my-8'}`}>
         {/* Sticky header */}
-        <div className="sticky top-0 bg-white rounded-t-lg border-b border-gray-200 px-6 py-4 flex justify-between items-center z-10">
-          <div className="flex items-center space-x-4">
-            <h2 className="text-xl sm:text-2xl font-bold text-gray-800">Order #{order.number}</h2>
+        <div className={`sticky top-0 bg-white border-b border-gray-200 flex justify-between items-center z-10 ${
+          compact ? 'px-3 py-2' : 'rounded-t-lg px-6 py-4'
+        }`}>
+          <div className={`flex items-center ${compact ? 'space-x-2' : 'space-x-4'}`}>
+            <h2 className={`font-bold text-gray-800 ${compact ? 'text-lg' : 'text-xl sm:text-2xl'}`}>Order #{order.number}</h2>
             <span
               className={`px-2 py-1 rounded-full text-sm font-medium ${
-                order.status === 'completed' ? 'bg-green-100 text-green-800' :
-                order.status === 'processing' ? 'bg-blue-100 text-blue-800' :
-                order.status === 'on-hold' ? 'bg-yellow-100 text-yellow-800' :
+                status === 'completed' ? 'bg-green-100 text-green-800' :
+                status === 'processing' ? 'bg-blue-100 text-blue-800' :
+                status === 'on-hold' ? 'bg-yellow-100 text-yellow-800' :
                 'bg-gray-100 text-gray-800'
               }`}
             >
-              {order.status}
+              {status}
             </span>
           </div>
-          <button
-            onClick={onClose}
-            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
-            aria-label="Close"
-          >
-            <X className="w-6 h-6 text-gray-500" />
-          </button>
+          <div className="flex items-center space-x-2">
+            {server && (
+              <button
+                onClick={() => setShowStatusPanel(!showStatusPanel)}
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 transition-colors"
+                aria-label="Change status"
+              >
+                <RefreshCw className={`w-4 h-4 ${compact ? '' : 'mr-2'}`} />
+                {!compact && 'Change status'}
+              </button>
+            )}
+            <button
+              onClick={() => setShowSendPanel(!showSendPanel)}
+              className="flex items-center px-3 py-2 text-sm font-medium text-blue-700 bg-blue-50 rounded-md hover:bg-blue-100 transition-colors"
+              aria-label="Send to conversation"
+            >
+              <Send className={`w-4 h-4 ${compact ? '' : 'mr-2'}`} />
+              {!compact && 'Send to conversation'}
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+              aria-label="Close"
+            >
+              <X className="w-6 h-6 text-gray-500" />
+            </button>
+          </div>
         </div>
 
         {/* Scrollable content */}
-        <div className="p-6 space-y-6">
+        <div className={compact ? 'p-3 space-y-4' : 'p-6 space-y-6'}>
+          {showStatusPanel && server && (
+            <ChangeOrderStatus
+              server={server}
+              order={{ ...order, status }}
+              onStatusChange={handleStatusChange}
+              onDone={() => setShowStatusPanel(false)}
+            />
+          )}
+
+          {showSendPanel && (
+            <SendOrderToConversation
+              order={{ ...order, status }}
+              onDone={() => setShowSendPanel(false)}
+            />
+          )}
+
           {/* Notes Section */}
           {hasNotes && (
             <div className="space-y-4">
@@ -121,7 +222,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose }) => {
                             From Customer
                           </p>
                           <span className="text-xs text-gray-500">
-                            {new Date(note.date_created).toLocaleString()}
+                            {formatStoreDate(note.date_created, order.store, true)}
                           </span>
                         </div>
                         <p className="text-gray-800">{note.note}</p>
@@ -146,7 +247,7 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose }) => {
                             {note.author || 'System'}
                           </p>
                           <span className="text-xs text-gray-500">
-                            {new Date(note.date_created).toLocaleString()}
+                            {formatStoreDate(note.date_created, order.store, true)}
                           </span>
                         </div>
                         <p className="text-gray-800">{note.note}</p>
@@ -158,6 +259,10 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose }) => {
             </div>
           )}
 
+          {server && (
+            <OrderNoteComposer server={server} orderId={order.id} onNoteAdded={handleNoteAdded} />
+          )}
+
           {/* Customer Information */}
           <div className="bg-gray-50 rounded-lg p-4">
             <h3 className="text-lg font-semibold mb-4 flex items-center">
@@ -248,10 +353,10 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose }) => {
                         {item.quantity}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-500">
-                        ${parseFloat(item.price).toFixed(2)}
+                        {formatMoney(item.price, order.store, order.currency)}
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-500">
-                        ${parseFloat(item.total).toFixed(2)}
+                        {formatMoney(item.total, order.store, order.currency)}
                       </td>
                     </tr>
                   ))}
@@ -266,23 +371,23 @@ const OrderDetails: React.FC<OrderDetailsProps> = ({ order, onClose }) => {
               <div className="w-full sm:w-64 space-y-2">
                 <div className="flex justify-between py-2">
                   <span className="text-gray-600">Subtotal:</span>
-                  <span className="font-medium">${parseFloat(order.total).toFixed(2)}</span>
+                  <span className="font-medium">{formatMoney(order.total, order.store, order.currency)}</span>
                 </div>
                 {order.shipping_total && (
                   <div className="flex justify-between py-2">
                     <span className="text-gray-600">Shipping:</span>
-                    <span className="font-medium">${parseFloat(order.shipping_total).toFixed(2)}</span>
+                    <span className="font-medium">{formatMoney(order.shipping_total, order.store, order.currency)}</span>
                   </div>
                 )}
                 {order.total_tax && (
                   <div className="flex justify-between py-2">
                     <span className="text-gray-600">Tax:</span>
-                    <span className="font-medium">${parseFloat(order.total_tax).toFixed(2)}</span>
+                    <span className="font-medium">{formatMoney(order.total_tax, order.store, order.currency)}</span>
                   </div>
                 )}
                 <div className="flex justify-between py-2 border-t border-gray-200">
                   <span className="font-semibold">Total:</span>
-                  <span className="font-semibold">${parseFloat(order.total).toFixed(2)}</span>
+                  <span className="font-semibold">{formatMoney(order.total, order.store, order.currency)}</span>
                 </div>
               </div>
             </div>
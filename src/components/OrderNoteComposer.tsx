@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { AlertCircle, Lock, MessageCircleMore, MessageSquare } from 'lucide-react';
+import { useChatwoot } from '../context/ChatwootContext';
+import { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient, { WooCommerceOrderNote } from '../services/wooCommerceClient';
+
+interface OrderNoteComposerProps {
+  server: WooCommerceServer;
+  orderId: number;
+  onNoteAdded: (note: WooCommerceOrderNote) => void;
+}
+
+/** Adds a private or customer note to an order; customer notes are emailed by WooCommerce. */
+const OrderNoteComposer: React.FC<OrderNoteComposerProps> = ({ server, orderId, onNoteAdded }) => {
+  const { appContext } = useChatwoot();
+  const [note, setNote] = useState('');
+  const [isCustomerNote, setIsCustomerNote] = useState(false);
+  // Notes are written with the API key's user, so the agent's name is added to the text instead.
+  const [signed, setSigned] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const agentName = appContext?.currentAgent.name;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = note.trim();
+    if (!text) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const created = await new WooCommerceClient(server).createOrderNote(orderId, {
+        note: agentName && signed ? `${text}\n\n— ${agentName}` : text,
+        customer_note: isCustomerNote
+      });
+      onNoteAdded(created);
+      setNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold flex items-center">
+          <MessageSquare className="w-5 h-5 mr-2" />
+          Add Note
+        </h3>
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          <button
+            type="button"
+            onClick={() => setIsCustomerNote(false)}
+            className={`flex items-center px-3 py-1 text-sm rounded-l-md border ${
+              !isCustomerNote ? 'bg-blue-100 text-blue-800 border-blue-300' : 'bg-white text-gray-700 border-gray-300'
+            }`}
+          >
+            <Lock className="w-4 h-4 mr-1" />
+            Private
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsCustomerNote(true)}
+            className={`flex items-center px-3 py-1 text-sm rounded-r-md border-t border-b border-r ${
+              isCustomerNote ? 'bg-yellow-100 text-yellow-800 border-yellow-300' : 'bg-white text-gray-700 border-gray-300'
+            }`}
+          >
+            <MessageCircleMore className="w-4 h-4 mr-1" />
+            To customer
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
+          <div className="flex">
+            <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+            <div>
+              <p className="font-bold">Error</p>
+              <p>{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={3}
+        placeholder={isCustomerNote ? 'Note emailed to the customer' : 'Private note, only visible to staff'}
+        className="w-full text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+      />
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        {agentName ? (
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={signed}
+              onChange={(e) => setSigned(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 mr-2"
+            />
+            Sign as {agentName}
+          </label>
+        ) : <span />}
+        <button
+          type="submit"
+          disabled={saving || !note.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          {saving ? 'Adding...' : isCustomerNote ? 'Send to Customer' : 'Add Private Note'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default OrderNoteComposer;
@@ -1,5 +1,7 @@
 import React from 'react';
-import { X, Package, Tag, ShoppingCart, AlertCircle, Link as LinkIcon, DollarSign, Archive, Clock, BarChart } from 'lucide-react';
+import { X, Package, Tag, ShoppingCart, AlertCircle, Link as LinkIcon, Banknote, Archive, Clock, BarChart } from 'lucide-react';
+import { useLayout } from '../context/LayoutContext';
+import { formatMoney } from '../services/storeFormat';
 
 interface ProductDetailsProps {
   product: {
@@ -38,6 +40,8 @@ interface ProductDetailsProps {
 }
 
 const ProductDetails: React.FC<ProductDetailsProps> = ({ product, onClose }) => {
+  const { compact } = useLayout();
+
   const handleBackdropClick = (e: React.MouseEvent<HTMLDivElement>) => {
     if (e.target === e.currentTarget) {
       onClose();
@@ -58,14 +62,16 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({ product, onClose }) =>
 
   return (
     <div 
-      className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center overflow-y-auto p-4 z-50"
+      className={`fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center overflow-y-auto z-50 ${compact ? '' : 'p-4'}`}
       onClick={handleBackdropClick}
     >
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl my-8">
+      <div className={`bg-white w-full ${compact ? 'min-h-full' : 'rounded-lg shadow-xl max-w-4xl my-8'}`}>
         {/* Header */}
-        <div className="sticky top-0 bg-white rounded-t-lg border-b border-gray-200 px-6 py-4 flex items-center justify-between z-10">
-          <div className="flex items-center space-x-4">
-            <h2 className="text-xl font-bold text-gray-800">{product.name}</h2>
+        <div className={`sticky top-0 bg-white border-b border-gray-200 flex items-center justify-between z-10 ${
+          compact ? 'px-3 py-2' : 'rounded-t-lg px-6 py-4'
+        }`}>
+          <div className={`flex items-center min-w-0 ${compact ? 'space-x-2' : 'space-x-4'}`}>
+            <h2 className={`font-bold text-gray-800 ${compact ? 'text-lg truncate' : 'text-xl'}`}>{product.name}</h2>
             {productUrl && (
               <a
                 href={productUrl}
@@ -86,7 +92,7 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({ product, onClose }) =>
           </button>
         </div>
 
-        <div className="p-6">
+        <div className={compact ? 'p-3' : 'p-6'}>
           {/* Product Images and Basic Info */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
             {/* Images */}
@@ -125,15 +131,15 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({ product, onClose }) =>
               {/* Price Section */}
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="flex items-center space-x-2">
-                  <DollarSign className="w-5 h-5 text-gray-500" />
+                  <Banknote className="w-5 h-5 text-gray-500" />
                   <div>
                     <div className="flex items-baseline space-x-2">
                       <span className="text-2xl font-bold text-gray-900">
-                        ${isOnSale ? product.sale_price : product.regular_price}
+                        {formatMoney(isOnSale ? product.sale_price : product.regular_price, product.store)}
                       </span>
                       {isOnSale && (
                         <span className="text-lg text-gray-500 line-through">
-                          ${product.regular_price}
+                          {formatMoney(product.regular_price, product.store)}
                         </span>
                       )}
                     </div>
@@ -0,0 +1,40 @@
+import React, { useState, useEffect } from 'react';
+import RequestScheduler, { RequestQueueState } from '../services/requestScheduler';
+
+/** Shows how many requests are running and waiting, and which hosts are rate limited. */
+const RequestQueueStatus: React.FC = () => {
+  const [state, setState] = useState<RequestQueueState>(() => RequestScheduler.getState());
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    return RequestScheduler.subscribe(setState);
+  }, []);
+
+  const pausedHosts = Object.entries(state.hosts).filter(([, host]) => host.pausedUntil !== null);
+
+  // Ticks the rate-limit countdown while a host is paused.
+  useEffect(() => {
+    if (pausedHosts.length === 0) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [pausedHosts.length]);
+
+  if (state.active === 0 && state.queued === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full text-xs text-gray-500 space-y-1">
+      <p>
+        {state.active} {state.active === 1 ? 'request' : 'requests'} running, {state.queued} queued
+      </p>
+      {pausedHosts.map(([host, { pausedUntil }]) => (
+        <p key={host} className="text-yellow-700">
+          {host} is rate limiting; retrying in {Math.max(0, Math.ceil(((pausedUntil ?? now) - now) / 1000))}s
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default RequestQueueStatus;
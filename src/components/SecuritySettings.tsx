@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, Lock, ShieldCheck, ShieldOff } from 'lucide-react';
+import CredentialVault, { AUTO_LOCK_OPTIONS, VaultSettings, VaultState } from '../services/credentialVault';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const inputClass = 'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200';
+
+const SecuritySettings: React.FC = () => {
+  const [vault, setVault] = useState<VaultState>(() => CredentialVault.getState());
+  const [settings, setSettings] = useState<VaultSettings>(() => CredentialVault.getSettings());
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [disablePassphrase, setDisablePassphrase] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    return CredentialVault.subscribe(setVault);
+  }, []);
+
+  const resetForms = () => {
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmation('');
+    setDisablePassphrase('');
+  };
+
+  const validateNewPassphrase = (): boolean => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+      return false;
+    }
+    if (newPassphrase !== confirmation) {
+      setError('The passphrases do not match.');
+      return false;
+    }
+    return true;
+  };
+
+  const run = async (action: () => Promise<void>, message: string) => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+    try {
+      await action();
+      resetForms();
+      setSuccess(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateNewPassphrase()) return;
+    run(() => CredentialVault.enable(newPassphrase), 'Credentials are now encrypted with your passphrase.');
+  };
+
+  const handleChangePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validateNewPassphrase()) return;
+    run(() => CredentialVault.changePassphrase(currentPassphrase, newPassphrase), 'Passphrase changed.');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => CredentialVault.disable(disablePassphrase), 'Encryption turned off. Credentials are stored in plain text again.');
+  };
+
+  const updateSettings = (updates: Partial<VaultSettings>) => {
+    const next = { ...settings, ...updates };
+    setSettings(next);
+    CredentialVault.saveSettings(next);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="px-6 py-4 space-y-8">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-gray-800">Security</h2>
+          <span className={`flex items-center px-2 py-1 rounded-full text-sm ${
+            vault.enabled ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+          }`}>
+            {vault.enabled ? <ShieldCheck className="w-4 h-4 mr-1" /> : <ShieldOff className="w-4 h-4 mr-1" />}
+            {vault.enabled ? 'Credentials encrypted' : 'Credentials stored in plain text'}
+          </span>
+        </div>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
+            <div className="flex">
+              <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+              <div>
+                <p className="font-bold">Error</p>
+                <p>{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4">{success}</div>
+        )}
+
+        {!vault.enabled ? (
+          <section>
+            <h3 className="text-lg font-semibold mb-2">Encrypt stored credentials</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              WooCommerce keys, ERPNext API keys and the Chatwoot token are encrypted with a key derived
+              from this passphrase. You enter it once when the dashboard opens. There is no way to recover
+              a forgotten passphrase; the credentials would have to be entered again.
+            </p>
+            <form onSubmit={handleEnable} className="space-y-4">
+              <div>
+                <label htmlFor="newPassphrase" className="block text-sm font-medium text-gray-700">Master passphrase</label>
+                <input
+                  type="password"
+                  id="newPassphrase"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  autoComplete="new-password"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">Repeat passphrase</label>
+                <input
+                  type="password"
+                  id="confirmation"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  autoComplete="new-password"
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {saving ? 'Encrypting...' : 'Enable Encryption'}
+              </button>
+            </form>
+          </section>
+        ) : (
+          <>
+            <section className="flex flex-wrap items-end justify-between gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Lock after inactivity
+                <select
+                  value={settings.autoLockMinutes}
+                  onChange={(e) => updateSettings({ autoLockMinutes: parseInt(e.target.value, 10) })}
+                  className={inputClass}
+                >
+                  {AUTO_LOCK_OPTIONS.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes === 0 ? 'Never' : `${minutes} min`}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={() => CredentialVault.lock()}
+                className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+              >
+                <Lock className="w-5 h-5 mr-2" />
+                Lock Now
+              </button>
+            </section>
+
+            <section className="border-t border-gray-200 pt-6">
+              <h3 className="text-lg font-semibold mb-4">Change passphrase</h3>
+              <form onSubmit={handleChangePassphrase} className="space-y-4">
+                <div>
+                  <label htmlFor="currentPassphrase" className="block text-sm font-medium text-gray-700">Current passphrase</label>
+                  <input
+                    type="password"
+                    id="currentPassphrase"
+                    value={currentPassphrase}
+                    onChange={(e) => setCurrentPassphrase(e.target.value)}
+                    autoComplete="current-password"
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="newPassphrase" className="block text-sm font-medium text-gray-700">New passphrase</label>
+                  <input
+                    type="password"
+                    id="newPassphrase"
+                    value={newPassphrase}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                    autoComplete="new-password"
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700">Repeat new passphrase</label>
+                  <input
+                    type="password"
+                    id="confirmation"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    autoComplete="new-password"
+                    className={inputClass}
+                    required
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+                >
+                  Change Passphrase
+                </button>
+              </form>
+            </section>
+
+            <section className="border-t border-gray-200 pt-6">
+              <h3 className="text-lg font-semibold mb-2">Turn off encryption</h3>
+              <p className="text-sm text-gray-500 mb-4">Stores the credentials in plain text again.</p>
+              <form onSubmit={handleDisable} className="flex flex-wrap items-end gap-2">
+                <input
+                  type="password"
+                  value={disablePassphrase}
+                  onChange={(e) => setDisablePassphrase(e.target.value)}
+                  placeholder="Current passphrase"
+                  autoComplete="current-password"
+                  className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
+                >
+                  Turn Off
+                </button>
+              </form>
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySettings;
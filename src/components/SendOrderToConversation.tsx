@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, Send, Lock, MessageSquare, CheckCircle } from 'lucide-react';
+import { useChatwoot } from '../context/ChatwootContext';
+import { createConversationMessage, getChatwootConfig } from '../services/chatwoot';
+import { formatOrderSummary, OrderSummarySource } from '../services/orderSummary';
+
+interface SendOrderToConversationProps {
+  order: OrderSummarySource;
+  onDone: () => void;
+}
+
+const SendOrderToConversation: React.FC<SendOrderToConversationProps> = ({ order, onDone }) => {
+  const { appContext } = useChatwoot();
+  const [content, setContent] = useState(() => formatOrderSummary(order));
+  const [isPrivate, setIsPrivate] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+  const config = getChatwootConfig();
+
+  const handleSend = async () => {
+    if (!config || !appContext) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      await createConversationMessage(config, appContext.conversation.id, content, { private: isPrivate });
+      setSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!config) {
+    return (
+      <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-4 text-sm">
+        Chatwoot API access is not configured.{' '}
+        <Link to="/chatwoot-settings" className="font-medium underline">Add your API token</Link> to send orders to conversations.
+      </div>
+    );
+  }
+
+  if (!appContext) {
+    return (
+      <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-4 text-sm">
+        No Chatwoot conversation is open. Open this app from a conversation to send the order.
+      </div>
+    );
+  }
+
+  if (sent) {
+    return (
+      <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4 flex items-center justify-between">
+        <span className="flex items-center">
+          <CheckCircle className="w-5 h-5 mr-2" />
+          Order sent to conversation #{appContext.conversation.id} as {isPrivate ? 'a private note' : 'a message'}.
+        </span>
+        <button onClick={onDone} className="text-sm font-medium hover:text-green-900">
+          Close
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">
+          Send to conversation #{appContext.conversation.id}
+        </h3>
+        <div className="inline-flex rounded-md shadow-sm" role="group">
+          <button
+            type="button"
+            onClick={() => setIsPrivate(true)}
+            className={`flex items-center px-3 py-1 text-sm rounded-l-md border ${
+              isPrivate ? 'bg-yellow-100 text-yellow-800 border-yellow-300' : 'bg-white text-gray-700 border-gray-300'
+            }`}
+          >
+            <Lock className="w-4 h-4 mr-1" />
+            Private note
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsPrivate(false)}
+            className={`flex items-center px-3 py-1 text-sm rounded-r-md border-t border-b border-r ${
+              !isPrivate ? 'bg-blue-100 text-blue-800 border-blue-300' : 'bg-white text-gray-700 border-gray-300'
+            }`}
+          >
+            <MessageSquare className="w-4 h-4 mr-1" />
+            Reply to customer
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
+          <div className="flex">
+            <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+            <div>
+              <p className="font-bold">Error</p>
+              <p>{error}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={12}
+        className="w-full font-mono text-sm rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+      />
+
+      {!isPrivate && (
+        <p className="text-sm text-gray-600">
+          This will be sent to {appContext.contact.name || 'the customer'} as a visible reply.
+        </p>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSend}
+          disabled={sending || !content.trim()}
+          className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {sending ? 'Sending...' : isPrivate ? 'Add Private Note' : 'Send Message'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SendOrderToConversation;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle, RefreshCw } from 'lucide-react';
+import {
+  bucketLatency,
+  calculateUptime,
+  findOutages,
+  getHealthHistory,
+  HealthCheckRecord,
+  HealthRange,
+  LatencyBucket
+} from '../services/healthHistory';
+import ServerMonitor from '../services/serverMonitor';
+import { WooCommerceServer } from '../services/woocommerce';
+
+interface ServerHealthHistoryProps {
+  server: WooCommerceServer;
+}
+
+const BUCKET_COUNT = 48;
+const REFRESH_INTERVAL = 30000; // 30 seconds
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 40;
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '< 1 min';
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+};
+
+const Sparkline: React.FC<{ buckets: LatencyBucket[] }> = ({ buckets }) => {
+  const values = buckets.map(b => b.averageResponseTime).filter((v): v is number => v !== null);
+  const max = Math.max(...values, 1);
+  const step = SPARKLINE_WIDTH / buckets.length;
+
+  // Break the line wherever a bucket has no successful checks.
+  const segments: string[][] = [[]];
+  buckets.forEach((bucket, index) => {
+    if (bucket.averageResponseTime === null) {
+      if (segments[segments.length - 1].length > 0) segments.push([]);
+      return;
+    }
+    const x = index * step + step / 2;
+    const y = SPARKLINE_HEIGHT - (bucket.averageResponseTime / max) * (SPARKLINE_HEIGHT - 4) - 2;
+    segments[segments.length - 1].push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+      preserveAspectRatio="none"
+      className="w-full h-10"
+      role="img"
+      aria-label="Response time sparkline"
+    >
+      {buckets.map((bucket, index) => bucket.failed > 0 && (
+        <rect
+          key={index}
+          x={index * step}
+          y={0}
+          width={step}
+          height={SPARKLINE_HEIGHT}
+          className="fill-red-100"
+        >
+          <title>{bucket.failed} failed check{bucket.failed === 1 ? '' : 's'}</title>
+        </rect>
+      ))}
+      {segments.filter(points => points.length > 0).map((points, index) => (
+        <polyline
+          key={index}
+          points={points.join(' ')}
+          fill="none"
+          className="stroke-blue-500"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+};
+
+const ServerHealthHistory: React.FC<ServerHealthHistoryProps> = ({ server }) => {
+  const serverId = server.id;
+  const [range, setRange] = useState<HealthRange>('24h');
+  const [records, setRecords] = useState<HealthCheckRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    try {
+      setRecords(await getHealthHistory(serverId, range));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load health history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadHistory();
+    const interval = window.setInterval(loadHistory, REFRESH_INTERVAL);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [serverId, range]);
+
+  const uptime = calculateUptime(records, failures => ServerMonitor.getCheckDelay(server, failures));
+  const outages = findOutages(records);
+  const buckets = bucketLatency(records, range, BUCKET_COUNT);
+  const latencies = records
+    .filter(record => record.status === 'online' && record.responseTime !== undefined)
+    .map(record => record.responseTime as number);
+  const averageLatency = latencies.length > 0
+    ? Math.round(latencies.reduce((sum, value) => sum + value, 0) / latencies.length)
+    : null;
+
+  return (
+    <div className="mt-4 border-t border-gray-200 pt-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex space-x-1">
+          {(['24h', '7d'] as HealthRange[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setRange(option)}
+              className={`px-3 py-1 rounded-md text-sm font-medium ${
+                range === option ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={loadHistory}
+          className="p-1 text-gray-500 hover:text-gray-700"
+          title="Refresh history"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mr-1" />
+          {error}
+        </p>
+      )}
+
+      {!loading && records.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No checks recorded in the last {range}. History is collected while status monitoring runs.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className={`text-xl font-semibold ${
+                uptime === null ? 'text-gray-400' : uptime >= 99 ? 'text-green-600' : uptime >= 95 ? 'text-yellow-600' : 'text-red-600'
+              }`}>
+                {uptime === null ? '—' : `${uptime.toFixed(uptime === 100 ? 0 : 2)}%`}
+              </p>
+              <p className="text-xs text-gray-500">Uptime</p>
+            </div>
+            <div>
+              <p className="text-xl font-semibold text-gray-800">
+                {averageLatency === null ? '—' : `${averageLatency} ms`}
+              </p>
+              <p className="text-xs text-gray-500">Avg. response</p>
+            </div>
+            <div>
+              <p className="text-xl font-semibold text-gray-800">{records.length}</p>
+              <p className="text-xs text-gray-500">Checks</p>
+            </div>
+          </div>
+
+          <div>
+            <Sparkline buckets={buckets} />
+            <div className="flex justify-between text-xs text-gray-400">
+              <span>{range} ago</span>
+              <span>now</span>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">Outages</h4>
+            {outages.length === 0 ? (
+              <p className="text-sm text-gray-500">No outages in the last {range}.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {outages.map(outage => (
+                  <li key={outage.start} className="py-2">
+                    <div className="flex justify-between">
+                      <span className="text-gray-700">
+                        {new Date(outage.start).toLocaleString()}
+                        <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                          outage.status === 'offline' ? 'bg-gray-100 text-gray-800' : 'bg-red-100 text-red-800'
+                        }`}>
+                          {outage.status}
+                        </span>
+                      </span>
+                      <span className="text-gray-500">
+                        {outage.end === null ? 'ongoing' : formatDuration(outage.end - outage.start)}
+                      </span>
+                    </div>
+                    {outage.errorMessages.map(message => (
+                      <p key={message} className="text-xs text-red-600 mt-1">{message}</p>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ServerHealthHistory;
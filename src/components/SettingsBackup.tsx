@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { AlertCircle, Download, Upload } from 'lucide-react';
+import {
+  applyImport,
+  BackupSectionId,
+  decryptSettings,
+  exportSettings,
+  ImportChange,
+  ImportPreviewSection,
+  previewImport,
+  SettingsBackupPayload
+} from '../services/settingsBackup';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const CHANGE_STYLES: Record<ImportChange, string> = {
+  new: 'bg-green-100 text-green-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+const SettingsBackup: React.FC = () => {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportConfirmation, setExportConfirmation] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [decrypting, setDecrypting] = useState(false);
+  const [payload, setPayload] = useState<SettingsBackupPayload | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewSection[]>([]);
+  const [selectedSections, setSelectedSections] = useState<BackupSectionId[]>([]);
+
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSuccess(null);
+
+    if (exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+      return;
+    }
+    if (exportPassphrase !== exportConfirmation) {
+      setError('The passphrases do not match.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      const contents = await exportSettings(exportPassphrase);
+      const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `dashboard-settings-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      setExportPassphrase('');
+      setExportConfirmation('');
+      setSuccess('Backup downloaded. Share the passphrase separately from the file.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const resetImport = () => {
+    setPayload(null);
+    setPreview([]);
+    setSelectedSections([]);
+  };
+
+  const handleDecrypt = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) return;
+
+    setDecrypting(true);
+    setError(null);
+    setSuccess(null);
+    resetImport();
+
+    try {
+      const decrypted = await decryptSettings(await importFile.text(), importPassphrase);
+      const sections = previewImport(decrypted);
+      setPayload(decrypted);
+      setPreview(sections);
+      // Preselect only the sections that would actually change something.
+      setSelectedSections(sections
+        .filter(({ items }) => items.some(item => item.change !== 'unchanged'))
+        .map(({ section }) => section.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setDecrypting(false);
+    }
+  };
+
+  const toggleSection = (sectionId: BackupSectionId) => {
+    setSelectedSections(selectedSections.includes(sectionId)
+      ? selectedSections.filter(id => id !== sectionId)
+      : [...selectedSections, sectionId]);
+  };
+
+  const handleApply = () => {
+    if (!payload) return;
+    setError(null);
+
+    try {
+      applyImport(payload, selectedSections);
+      resetImport();
+      setImportFile(null);
+      setImportPassphrase('');
+      setSuccess('Settings imported. Reload open pages to pick up the new connections.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    }
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto bg-white shadow-md rounded-lg overflow-hidden">
+      <div className="px-6 py-4 space-y-8">
+        <h2 className="text-2xl font-bold text-gray-800">Settings Backup</h2>
+
+        {error && (
+          <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
+            <div className="flex">
+              <AlertCircle className="h-6 w-6 text-red-500 mr-4" />
+              <div>
+                <p className="font-bold">Error</p>
+                <p>{error}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {success && (
+          <div className="bg-green-100 border-l-4 border-green-500 text-green-700 p-4">{success}</div>
+        )}
+
+        <section>
+          <h3 className="text-lg font-semibold mb-2">Export</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            Bundles the WooCommerce stores, ERPNext and Chatwoot connections into one file,
+            encrypted with a passphrase. The file contains API keys, so treat it like a password.
+          </p>
+          <form onSubmit={handleExport} className="space-y-4">
+            <div>
+              <label htmlFor="exportPassphrase" className="block text-sm font-medium text-gray-700">Passphrase</label>
+              <input
+                type="password"
+                id="exportPassphrase"
+                value={exportPassphrase}
+                onChange={(e) => setExportPassphrase(e.target.value)}
+                autoComplete="new-password"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="exportConfirmation" className="block text-sm font-medium text-gray-700">Repeat passphrase</label>
+              <input
+                type="password"
+                id="exportConfirmation"
+                value={exportConfirmation}
+                onChange={(e) => setExportConfirmation(e.target.value)}
+                autoComplete="new-password"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={exporting}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              <Download className="w-5 h-5 mr-2" />
+              {exporting ? 'Encrypting...' : 'Download Backup'}
+            </button>
+          </form>
+        </section>
+
+        <section className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-semibold mb-2">Import</h3>
+          <form onSubmit={handleDecrypt} className="space-y-4">
+            <div>
+              <label htmlFor="importFile" className="block text-sm font-medium text-gray-700">Backup file</label>
+              <input
+                type="file"
+                id="importFile"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  setImportFile(e.target.files?.[0] ?? null);
+                  resetImport();
+                }}
+                className="mt-1 block w-full text-sm text-gray-700"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="importPassphrase" className="block text-sm font-medium text-gray-700">Passphrase</label>
+              <input
+                type="password"
+                id="importPassphrase"
+                value={importPassphrase}
+                onChange={(e) => setImportPassphrase(e.target.value)}
+                autoComplete="off"
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                required
+              />
+            </div>
+            <button
+              type="submit"
+              disabled={decrypting || !importFile}
+              className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              <Upload className="w-5 h-5 mr-2" />
+              {decrypting ? 'Decrypting...' : 'Preview Import'}
+            </button>
+          </form>
+
+          {payload && (
+            <div className="mt-6 space-y-4">
+              <p className="text-sm text-gray-500">
+                Exported {new Date(payload.exportedAt).toLocaleString()}. Stores are merged with the ones
+                already configured; other settings in a selected section replace the current values.
+              </p>
+              {preview.length === 0 ? (
+                <p className="text-sm text-gray-500">The backup does not contain any settings.</p>
+              ) : (
+                preview.map(({ section, items }) => (
+                  <div key={section.id} className="border border-gray-200 rounded-lg p-4">
+                    <label className="flex items-center font-medium text-gray-800">
+                      <input
+                        type="checkbox"
+                        checked={selectedSections.includes(section.id)}
+                        onChange={() => toggleSection(section.id)}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                      />
+                      {section.label}
+                    </label>
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {items.map(item => (
+                        <li key={item.label} className="flex items-center justify-between">
+                          <span className="text-gray-700">{item.label}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${CHANGE_STYLES[item.change]}`}>
+                            {item.change}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={resetImport}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleApply}
+                  disabled={selectedSections.length === 0}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
+                >
+                  Import Selected
+                </button>
+              </div>
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsBackup;
@@ -0,0 +1,22 @@
+import React from 'react';
+import { WooCommerceServer } from '../services/woocommerce';
+import { getStoreColor, STORE_COLORS } from '../services/storeTags';
+
+interface StoreBadgeProps {
+  store: { id: string; name: string };
+  /** The configured store, looked up once by the list; its colour setting wins over the derived one. */
+  server?: WooCommerceServer;
+  className?: string;
+}
+
+const StoreBadge: React.FC<StoreBadgeProps> = ({ store, server, className = '' }) => {
+  const color = getStoreColor(server ?? store);
+
+  return (
+    <span className={`inline-block px-2 py-0.5 text-xs font-medium rounded-full truncate ${STORE_COLORS[color].badge} ${className}`}>
+      {store.name}
+    </span>
+  );
+};
+
+export default StoreBadge;
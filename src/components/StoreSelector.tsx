@@ -1,6 +1,8 @@
-import React from 'react';
-import { Store } from 'lucide-react';
+import React, { useState } from 'react';
+import { Search, Store, Tag } from 'lucide-react';
 import { WooCommerceServer } from '../services/woocommerce';
+import { getStoreColor, getStoreTags, STORE_COLORS } from '../services/storeTags';
+import { isStoreSelectionShared, setStoreSelectionShared } from '../services/pageFilters';
 
 interface StoreSelectorProps {
   servers: WooCommerceServer[];
@@ -8,11 +10,20 @@ interface StoreSelectorProps {
   onSelectionChange: (serverIds: string[]) => void;
 }
 
+// Below this many stores the list fits on screen and a search box is just clutter.
+const SEARCH_THRESHOLD = 6;
+
+const shortcutClass = 'px-2 py-1 text-xs font-medium rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200';
+
 const StoreSelector: React.FC<StoreSelectorProps> = ({
   servers,
   selectedServers,
   onSelectionChange,
 }) => {
+  const [search, setSearch] = useState('');
+  const [shared, setShared] = useState(() => isStoreSelectionShared());
+  const tags = getStoreTags(servers);
+
   const handleCheckboxChange = (serverId: string) => {
     const newSelection = selectedServers.includes(serverId)
       ? selectedServers.filter(id => id !== serverId)
@@ -20,47 +31,144 @@ const StoreSelector: React.FC<StoreSelectorProps> = ({
     onSelectionChange(newSelection);
   };
 
+  const tagServerIds = (tag: string) =>
+    servers.filter(server => server.tags?.includes(tag)).map(server => server.id);
+
+  const isTagSelected = (tag: string) =>
+    tagServerIds(tag).every(id => selectedServers.includes(id));
+
+  /** Selects every store with the tag, or deselects them all when they already are. */
+  const handleTagToggle = (tag: string) => {
+    const ids = tagServerIds(tag);
+    onSelectionChange(isTagSelected(tag)
+      ? selectedServers.filter(id => !ids.includes(id))
+      : Array.from(new Set([...selectedServers, ...ids])));
+  };
+
+  const handleSharedChange = (checked: boolean) => {
+    setShared(checked);
+    setStoreSelectionShared(checked, selectedServers);
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleServers = query
+    ? servers.filter(server =>
+        server.name.toLowerCase().includes(query)
+        || server.url.toLowerCase().includes(query)
+        || server.tags?.some(tag => tag.toLowerCase().includes(query)))
+    : servers;
+
   return (
     <div className="relative">
-      <div className="flex items-center space-x-2">
-        <Store className="w-5 h-5 text-gray-500" />
-        <span className="text-sm font-medium text-gray-700">Filter by Store:</span>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Store className="w-5 h-5 text-gray-500" />
+          <span className="text-sm font-medium text-gray-700">Filter by Store:</span>
+        </div>
+        {servers.length > 0 && (
+          <div className="flex space-x-1">
+            <button type="button" onClick={() => onSelectionChange(servers.map(s => s.id))} className={shortcutClass}>
+              All
+            </button>
+            <button type="button" onClick={() => onSelectionChange([])} className={shortcutClass}>
+              None
+            </button>
+            <button
+              type="button"
+              onClick={() => onSelectionChange(servers.filter(s => s.status === 'online').map(s => s.id))}
+              className={shortcutClass}
+            >
+              Online only
+            </button>
+          </div>
+        )}
       </div>
+      {tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              type="button"
+              onClick={() => handleTagToggle(tag)}
+              className={`flex items-center px-2 py-1 text-xs font-medium rounded-full border ${
+                isTagSelected(tag)
+                  ? 'bg-blue-100 text-blue-800 border-blue-200'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              <Tag className="w-3 h-3 mr-1" />
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
       <div className="mt-2 bg-white border border-gray-300 rounded-md shadow-sm">
-        {servers.map(server => (
-          <label
-            key={server.id}
-            className="flex items-center px-4 py-2 hover:bg-gray-50 cursor-pointer border-b last:border-b-0"
-          >
+        {servers.length > SEARCH_THRESHOLD && (
+          <div className="relative border-b">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
             <input
-              type="checkbox"
-              checked={selectedServers.includes(server.id)}
-              onChange={() => handleCheckboxChange(server.id)}
-              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search stores..."
+              className="w-full pl-9 pr-3 py-2 text-sm border-0 rounded-t-md focus:ring-0"
             />
-            <div className="ml-3">
-              <span className="text-sm font-medium text-gray-700">{server.name}</span>
-              <span className="ml-2 text-xs text-gray-500">({server.url})</span>
-            </div>
-            <span
-              className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
-                server.status === 'online'
-                  ? 'bg-green-100 text-green-800'
-                  : 'bg-gray-100 text-gray-800'
-              }`}
+          </div>
+        )}
+        <div className={servers.length > SEARCH_THRESHOLD ? 'max-h-64 overflow-y-auto' : ''}>
+          {visibleServers.map(server => (
+            <label
+              key={server.id}
+              className="flex items-center px-4 py-2 hover:bg-gray-50 cursor-pointer border-b last:border-b-0"
             >
-              {server.status}
-            </span>
-          </label>
-        ))}
+              <input
+                type="checkbox"
+                checked={selectedServers.includes(server.id)}
+                onChange={() => handleCheckboxChange(server.id)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className={`ml-3 w-2.5 h-2.5 rounded-full flex-shrink-0 ${STORE_COLORS[getStoreColor(server)].swatch}`} />
+              <div className="ml-2 min-w-0">
+                <span className="text-sm font-medium text-gray-700">{server.name}</span>
+                <span className="ml-2 text-xs text-gray-500">({server.url})</span>
+                {server.tags && server.tags.length > 0 && (
+                  <span className="ml-2 text-xs text-gray-400">{server.tags.join(', ')}</span>
+                )}
+              </div>
+              <span
+                className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
+                  server.status === 'online'
+                    ? 'bg-green-100 text-green-800'
+                    : 'bg-gray-100 text-gray-800'
+                }`}
+              >
+                {server.status}
+              </span>
+            </label>
+          ))}
+          {servers.length > 0 && visibleServers.length === 0 && (
+            <div className="px-4 py-2 text-sm text-gray-500">No stores match "{search}".</div>
+          )}
+        </div>
         {servers.length === 0 && (
           <div className="px-4 py-2 text-sm text-gray-500">
             No stores configured. Please add stores in settings.
           </div>
         )}
       </div>
+      {servers.length > 1 && (
+        <label className="mt-2 flex items-center text-xs text-gray-500">
+          <input
+            type="checkbox"
+            checked={shared}
+            onChange={(e) => handleSharedChange(e.target.checked)}
+            className="h-3.5 w-3.5 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Use this selection on every page
+        </label>
+      )}
     </div>
   );
 };
 
-export default StoreSelector;
\ No newline at end of file
+export default StoreSelector;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { WooCommerceServer } from '../services/woocommerce';
+import { StoreSyncState } from '../services/storeCache';
+
+interface SyncStatusProps {
+  servers: WooCommerceServer[];
+  syncStates: Record<string, StoreSyncState>;
+  /** Stores whose last refresh failed; their cached data is shown instead. */
+  failedServerIds: string[];
+  refreshing: boolean;
+  /** The cache only holds the pages that were viewed, so times say when it was last fetched. */
+  partial?: boolean;
+}
+
+const formatAge = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+/** One line per store saying when its data was last fetched, and whether it is stale. */
+const SyncStatus: React.FC<SyncStatusProps> = ({ servers, syncStates, failedServerIds, refreshing, partial = false }) => {
+  if (servers.length === 0) return null;
+  const verb = partial ? 'fetched' : 'synced';
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-gray-500">
+      {refreshing && (
+        <span className="flex items-center text-blue-600">
+          <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+          Refreshing...
+        </span>
+      )}
+      {servers.map(server => {
+        const syncedAt = syncStates[server.id]?.syncedAt;
+        const failed = failedServerIds.includes(server.id);
+
+        return (
+          <span key={server.id} className={`flex items-center ${failed ? 'text-yellow-700' : ''}`}>
+            {failed && <CloudOff className="w-3 h-3 mr-1" />}
+            {server.name}:{' '}
+            {failed
+              ? syncedAt ? `unreachable, showing data from ${formatAge(syncedAt)}` : 'unreachable, nothing cached'
+              : syncedAt ? `${verb} ${formatAge(syncedAt)}` : `not ${verb} yet`}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SyncStatus;
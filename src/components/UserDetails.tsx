@@ -1,12 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import axios from 'axios';
 import { AlertCircle, Package, User, Mail, Phone, Calendar, X } from 'lucide-react';
-import WooCommerceService from '../services/woocommerce';
+import { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
+import { isRequestCancelled } from '../services/requestScheduler';
+import { useLayout } from '../context/LayoutContext';
+import { formatMoney, formatStoreDate } from '../services/storeFormat';
 
 interface UserOrder {
   id: number;
   status: string;
   total: string;
+  currency?: string;
   date_created: string;
   line_items: Array<{
     id: number;
@@ -17,53 +21,42 @@ interface UserOrder {
 }
 
 interface UserDetailsProps {
+  server: WooCommerceServer;
   userId: number;
   onClose: () => void;
 }
 
-const UserDetails: React.FC<UserDetailsProps> = ({ userId, onClose }) => {
+const UserDetails: React.FC<UserDetailsProps> = ({ server, userId, onClose }) => {
+  const { compact } = useLayout();
   const [user, setUser] = useState<any>(null);
   const [orders, setOrders] = useState<UserOrder[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchUserDetails();
-  }, [userId]);
+    const controller = new AbortController();
+    fetchUserDetails(controller.signal);
+    return () => controller.abort();
+  }, [server.id, userId]);
 
-  const fetchUserDetails = async () => {
+  const fetchUserDetails = async (signal: AbortSignal) => {
     setLoading(true);
     setError(null);
 
     try {
-      const activeServer = WooCommerceService.getActiveServer();
-
-      if (!activeServer) {
-        throw new Error('No active WooCommerce server configured.');
-      }
-
-      const [userResponse, ordersResponse] = await Promise.all([
-        axios.get(`${activeServer.url}/wp-json/wc/v3/customers/${userId}`, {
-          auth: {
-            username: activeServer.consumerKey,
-            password: activeServer.consumerSecret
-          }
-        }),
-        axios.get(`${activeServer.url}/wp-json/wc/v3/orders`, {
-          auth: {
-            username: activeServer.consumerKey,
-            password: activeServer.consumerSecret
-          },
-          params: {
-            customer: userId,
-            per_page: 100
-          }
+      const client = new WooCommerceClient(server, signal);
+      const [customer, ordersPage] = await Promise.all([
+        client.getCustomer(userId),
+        client.listOrders<UserOrder>({
+          customer: userId,
+          per_page: 100
         })
       ]);
 
-      setUser(userResponse.data);
-      setOrders(ordersResponse.data);
+      setUser(customer);
+      setOrders(ordersPage.items);
     } catch (err) {
+      if (isRequestCancelled(err)) return;
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
       setLoading(false);
@@ -81,8 +74,8 @@ const UserDetails: React.FC<UserDetailsProps> = ({ userId, onClose }) => {
   }
 
   return (
-    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center overflow-y-auto">
-      <div className="bg-white rounded-lg p-6 w-full max-w-4xl mx-4 my-8">
+    <div className={`fixed inset-0 bg-black bg-opacity-50 flex justify-center overflow-y-auto ${compact ? 'items-start' : 'items-center'}`}>
+      <div className={`bg-white w-full ${compact ? 'min-h-full p-3' : 'rounded-lg p-6 max-w-4xl mx-4 my-8'}`}>
         <div className="flex justify-between items-start mb-6">
           <h2 className="text-2xl font-bold text-gray-800">User Details</h2>
           <button
@@ -179,9 +172,9 @@ const UserDetails: React.FC<UserDetailsProps> = ({ userId, onClose }) => {
                       <div className="flex items-center justify-between text-sm text-gray-600">
                         <div className="flex items-center">
                           <Calendar className="w-4 h-4 mr-1" />
-                          {new Date(order.date_created).toLocaleDateString()}
+                          {formatStoreDate(order.date_created, server)}
                         </div>
-                        <div>Total: ${order.total}</div>
+                        <div>Total: {formatMoney(order.total, server, order.currency)}</div>
                       </div>
                       {order.line_items && (
                         <div className="mt-2 text-sm text-gray-600">
@@ -189,7 +182,7 @@ const UserDetails: React.FC<UserDetailsProps> = ({ userId, onClose }) => {
                           <ul className="list-disc list-inside">
                             {order.line_items.map((item) => (
                               <li key={item.id}>
-                                {item.name} (x{item.quantity}) - ${item.price}
+                                {item.name} (x{item.quantity}) - {formatMoney(item.price, server, order.currency)}
                               </li>
                             ))}
                           </ul>
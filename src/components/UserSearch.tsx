@@ -1,8 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import axios from 'axios';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Search, AlertCircle, User } from 'lucide-react';
-import WooCommerceService from '../services/woocommerce';
+import WooCommerceService, { WooCommerceServer } from '../services/woocommerce';
+import WooCommerceClient from '../services/wooCommerceClient';
 import UserDetails from './UserDetails';
+import StoreSelector from './StoreSelector';
+import RequestQueueStatus from './RequestQueueStatus';
+import SyncStatus from './SyncStatus';
+import { getStoreSelection, saveStoreSelection } from '../services/pageFilters';
+import { getCachedItems, getSyncStates, mergeStoreItems, saveCachedItems, StoreSyncState } from '../services/storeCache';
+import StoreBadge from './StoreBadge';
 
 interface WooCommerceUser {
   id: number;
@@ -10,65 +16,145 @@ interface WooCommerceUser {
   username: string;
   first_name: string;
   last_name: string;
+  store: {
+    id: string;
+    name: string;
+  };
+}
+
+interface StoreError {
+  store: string;
+  message: string;
 }
 
+const PAGE_KEY = 'user-search';
+
+/** Applies the search to cached customers, which are shown before the store has answered. */
+const matchesSearch = (user: WooCommerceUser, term: string): boolean => {
+  const needle = term.trim().toLowerCase();
+  return !needle || [user.email, user.username, `${user.first_name} ${user.last_name}`]
+    .some(value => (value || '').toLowerCase().includes(needle));
+};
+
 const UserSearch: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [users, setUsers] = useState<WooCommerceUser[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [storeErrors, setStoreErrors] = useState<StoreError[]>([]);
   const [page, setPage] = useState(1);
   const [hasMore, setHasMore] = useState(true);
-  const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
+  const [selectedUser, setSelectedUser] = useState<WooCommerceUser | null>(null);
+  const [servers, setServers] = useState<WooCommerceServer[]>([]);
+  const [selectedServers, setSelectedServers] = useState<string[]>([]);
+  const [syncStates, setSyncStates] = useState<Record<string, StoreSyncState>>({});
+  const [failedServers, setFailedServers] = useState<string[]>([]);
+
+  // Aborted when the page unmounts, which drops its queued and running requests.
+  const requestController = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    fetchUsers(true);
+    const controller = new AbortController();
+    requestController.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const allServers = WooCommerceService.getServers();
+    setServers(allServers);
+    setSelectedServers(getStoreSelection(PAGE_KEY, allServers));
   }, []);
 
+  useEffect(() => {
+    if (selectedServers.length > 0) {
+      fetchUsers(true);
+    } else {
+      setUsers([]);
+    }
+  }, [selectedServers]);
+
   useEffect(() => {
     if (page > 1) {
       fetchUsers(false);
     }
   }, [page]);
 
+  // Renders the last fetched customers straight away; fetchUsers replaces them as stores answer.
+  const loadCachedUsers = async () => {
+    try {
+      const [cachedUsers, states] = await Promise.all([
+        getCachedItems<WooCommerceUser>(selectedServers, 'customers'),
+        getSyncStates(selectedServers, 'customers')
+      ]);
+      setSyncStates(states);
+      setUsers(prevUsers => mergeStoreItems(cachedUsers.filter(user => matchesSearch(user, searchTerm)), prevUsers));
+    } catch (error) {
+      console.error('Error reading cached customers:', error);
+    }
+  };
+
   const fetchUsers = async (resetPage: boolean = false) => {
     if (resetPage) {
       setPage(1);
       setUsers([]);
+      loadCachedUsers();
     }
 
     setLoading(true);
     setError(null);
+    setStoreErrors([]);
 
     try {
-      const activeServer = WooCommerceService.getActiveServer();
+      const currentPage = resetPage ? 1 : page;
+      const stores = servers.filter(s => selectedServers.includes(s.id));
 
-      if (!activeServer) {
-        throw new Error('No active WooCommerce server configured. Please set up a server in the Settings page.');
-      }
-
-      const response = await axios.get(`${activeServer.url}/wp-json/wc/v3/customers`, {
-        auth: {
-          username: activeServer.consumerKey,
-          password: activeServer.consumerSecret
-        },
-        params: {
+      const outcomes = await Promise.allSettled(stores.map(async server => {
+        const usersPage = await new WooCommerceClient(server, requestController.current?.signal).listCustomers<Omit<WooCommerceUser, 'store'>>({
           search: searchTerm,
           per_page: 20,
-          page: resetPage ? 1 : page
-        }
-      });
+          page: currentPage
+        });
+        const storeUsers = usersPage.items.map(user => ({
+          ...user,
+          store: {
+            id: server.id,
+            name: server.name
+          }
+        }));
+
+        saveCachedItems(server.id, 'customers', storeUsers)
+          .then(state => setSyncStates(prev => ({ ...prev, [server.id]: state })))
+          .catch(error => console.error(`Error caching customers from ${server.name}:`, error));
+
+        return { users: storeUsers, hasMore: currentPage < usersPage.totalPages };
+      }));
 
-      setUsers(prevUsers => {
-        if (resetPage) {
-          return response.data;
+      const fetchedUsers: WooCommerceUser[] = [];
+      const failures: StoreError[] = [];
+      let anyHasMore = false;
+
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          fetchedUsers.push(...outcome.value.users);
+          anyHasMore = anyHasMore || outcome.value.hasMore;
+        } else {
+          failures.push({
+            store: stores[index].name,
+            message: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error occurred'
+          });
         }
-        const newUsers = response.data.filter((newUser: WooCommerceUser) => 
-          !prevUsers.some(existingUser => existingUser.id === newUser.id)
-        );
-        return [...prevUsers, ...newUsers];
       });
-      setHasMore(response.data.length === 20);
+
+      setFailedServers(stores.filter((_, index) => outcomes[index].status === 'rejected').map(server => server.id));
+
+      if (failures.length === stores.length && stores.length > 0) {
+        throw new Error(failures.map(f => `${f.store}: ${f.message}`).join('; '));
+      }
+
+      setStoreErrors(failures);
+      // Customers of unreachable stores stay listed from the cache.
+      setUsers(prevUsers => mergeStoreItems(prevUsers, fetchedUsers));
+      setHasMore(anyHasMore);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -76,6 +162,11 @@ const UserSearch: React.FC = () => {
     }
   };
 
+  const handleStoreSelectionChange = (serverIds: string[]) => {
+    setSelectedServers(serverIds);
+    saveStoreSelection(PAGE_KEY, serverIds);
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     fetchUsers(true);
@@ -85,16 +176,8 @@ const UserSearch: React.FC = () => {
     setPage(prevPage => prevPage + 1);
   };
 
-  const filteredUsers = users.filter(user => {
-    const searchLower = searchTerm.toLowerCase();
-    return (
-      user.email.toLowerCase().includes(searchLower) ||
-      user.username.toLowerCase().includes(searchLower) ||
-      user.first_name.toLowerCase().includes(searchLower) ||
-      user.last_name.toLowerCase().includes(searchLower) ||
-      `${user.first_name} ${user.last_name}`.toLowerCase().includes(searchLower)
-    );
-  });
+  const serversById = useMemo(() => new Map(servers.map(server => [server.id, server])), [servers]);
+  const selectedServer = selectedUser ? serversById.get(selectedUser.store.id) : undefined;
 
   return (
     <div className="space-y-6">
@@ -113,13 +196,27 @@ const UserSearch: React.FC = () => {
         </div>
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || selectedServers.length === 0}
           className="px-6 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
         >
           {loading ? 'Searching...' : 'Search'}
         </button>
       </form>
 
+      <StoreSelector
+        servers={servers}
+        selectedServers={selectedServers}
+        onSelectionChange={handleStoreSelectionChange}
+      />
+
+      <SyncStatus
+        servers={servers.filter(server => selectedServers.includes(server.id))}
+        syncStates={syncStates}
+        failedServerIds={failedServers}
+        refreshing={loading && users.length > 0}
+        partial
+      />
+
       {error && (
         <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4" role="alert">
           <div className="flex">
@@ -132,13 +229,21 @@ const UserSearch: React.FC = () => {
         </div>
       )}
 
+      {storeErrors.length > 0 && (
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-4 text-sm">
+          {storeErrors.map(({ store, message }) => (
+            <p key={store}>Could not search {store}: {message}</p>
+          ))}
+        </div>
+      )}
+
       <div className="bg-white shadow overflow-hidden sm:rounded-md">
         <ul className="divide-y divide-gray-200">
-          {filteredUsers.map((user) => (
+          {users.map((user) => (
             <li
-              key={user.id}
+              key={`${user.store.id}-${user.id}`}
               className="px-6 py-4 hover:bg-gray-50 cursor-pointer"
-              onClick={() => setSelectedUserId(user.id)}
+              onClick={() => setSelectedUser(user)}
             >
               <div className="flex items-center space-x-4">
                 <div className="flex-shrink-0">
@@ -151,8 +256,9 @@ const UserSearch: React.FC = () => {
                   <p className="text-sm text-gray-500 truncate">{user.email}</p>
                   <p className="text-sm text-gray-500 truncate">Username: {user.username}</p>
                 </div>
-                <div className="inline-flex items-center text-sm font-semibold text-gray-900">
-                  ID: {user.id}
+                <div className="flex flex-col items-end space-y-1">
+                  <StoreBadge store={user.store} server={serversById.get(user.store.id)} />
+                  <span className="text-sm font-semibold text-gray-900">ID: {user.id}</span>
                 </div>
               </div>
             </li>
@@ -160,9 +266,12 @@ const UserSearch: React.FC = () => {
         </ul>
       </div>
 
-      {loading && (
-        <div className="flex justify-center items-center">
+      {loading && users.length === 0 && (
+        <div className="flex flex-col items-center space-y-2">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900"></div>
+          <div className="text-center">
+            <RequestQueueStatus />
+          </div>
         </div>
       )}
 
@@ -177,16 +286,17 @@ const UserSearch: React.FC = () => {
         </div>
       )}
 
-      {!loading && filteredUsers.length === 0 && (
+      {!loading && users.length === 0 && (
         <div className="text-center py-8 text-gray-500">
-          {searchTerm ? 'No users found matching your search criteria.' : 'No users found in the system.'}
+          {searchTerm ? 'No users found matching your search criteria.' : selectedServers.length === 0 ? 'Please select at least one store to search customers.' : 'No users found in the system.'}
         </div>
       )}
 
-      {selectedUserId && (
+      {selectedUser && selectedServer && (
         <UserDetails
-          userId={selectedUserId}
-          onClose={() => setSelectedUserId(null)}
+          server={selectedServer}
+          userId={selectedUser.id}
+          onClose={() => setSelectedUser(null)}
         />
       )}
     </div>
@@ -1,55 +1,180 @@
 import React, { useState, useEffect } from 'react';
-import { AlertCircle, Plus, RefreshCw, Check, X, Server, Globe, Key } from 'lucide-react';
-import WooCommerceService, { WooCommerceServer } from '../services/woocommerce';
+import { AlertCircle, Plus, RefreshCw, Star, X, Server, Globe, Key, Activity, Pencil, ShieldCheck } from 'lucide-react';
+import WooCommerceService, { ApiKeyAccess, CredentialCheckResult, StoreColor, WooCommerceServer } from '../services/woocommerce';
+import { getStoreColor, getStoreTags, parseTags, STORE_COLORS } from '../services/storeTags';
+import { verifyServerCredentials } from '../services/serverVerification';
+import ServerHealthHistory from './ServerHealthHistory';
+import MonitoringSettingsPanel from './MonitoringSettingsPanel';
+import ExchangeRatesPanel from './ExchangeRatesPanel';
+import ServerMonitor, { formatInterval, MONITOR_INTERVAL_OPTIONS } from '../services/serverMonitor';
+
+const EMPTY_SERVER_FORM = {
+  name: '',
+  url: '',
+  consumerKey: '',
+  consumerSecret: '',
+  useQueryStringAuth: false,
+  /** Comma-separated while editing; split into a list on save. */
+  tags: '',
+  color: undefined as StoreColor | undefined
+};
+
+const ACCESS_LABELS: Record<ApiKeyAccess, { label: string; className: string }> = {
+  read_write: { label: 'Read & write', className: 'bg-green-100 text-green-800' },
+  read: { label: 'Read only', className: 'bg-yellow-100 text-yellow-800' },
+  write: { label: 'Write only', className: 'bg-yellow-100 text-yellow-800' },
+  none: { label: 'No access', className: 'bg-red-100 text-red-800' },
+  unknown: { label: 'Access unknown', className: 'bg-gray-100 text-gray-800' }
+};
+
+const CredentialCheckSummary: React.FC<{ check: CredentialCheckResult }> = ({ check }) => {
+  const access = ACCESS_LABELS[check.access];
+
+  return (
+    <div className="mt-3 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${access.className}`}>{access.label}</span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+          check.https ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+        }`}>
+          {check.https ? 'HTTPS' : 'No HTTPS'}
+        </span>
+        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+          check.basicAuth === 'ok'
+            ? 'bg-green-100 text-green-800'
+            : check.basicAuth === 'stripped'
+            ? 'bg-yellow-100 text-yellow-800'
+            : 'bg-red-100 text-red-800'
+        }`}>
+          {check.basicAuth === 'ok'
+            ? 'Basic auth works'
+            : check.basicAuth === 'stripped'
+            ? 'Authorization header stripped'
+            : 'Authentication failed'}
+        </span>
+        {check.wooCommerceVersion && (
+          <span className="text-gray-500">WooCommerce {check.wooCommerceVersion}</span>
+        )}
+        {check.wordPressVersion && (
+          <span className="text-gray-500">WordPress {check.wordPressVersion}</span>
+        )}
+        <span className="text-gray-400">Verified {new Date(check.checkedAt).toLocaleString()}</span>
+      </div>
+      {check.errors.length > 0 && (
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 text-yellow-800 p-3">
+          <ul className="list-disc list-inside space-y-1">
+            {check.errors.map(message => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
 
 const WooCommerceSettings: React.FC = () => {
   const [servers, setServers] = useState<WooCommerceServer[]>([]);
-  const [showAddServer, setShowAddServer] = useState(false);
-  const [newServer, setNewServer] = useState({
-    name: '',
-    url: '',
-    consumerKey: '',
-    consumerSecret: ''
-  });
+  const [showServerForm, setShowServerForm] = useState(false);
+  const [editingServerId, setEditingServerId] = useState<string | null>(null);
+  const [serverForm, setServerForm] = useState(EMPTY_SERVER_FORM);
   const [loading, setLoading] = useState(false);
+  const [verifyingServerId, setVerifyingServerId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [historyServerId, setHistoryServerId] = useState<string | null>(null);
 
   useEffect(() => {
     loadServers();
-    // Start monitoring when component mounts
-    WooCommerceService.startMonitoring(setServers);
-    
-    // Stop monitoring when component unmounts
-    return () => {
-      WooCommerceService.stopMonitoring(setServers);
-    };
+    // Status checks run app-wide; this page only listens for their results.
+    return WooCommerceService.subscribe(setServers);
   }, []);
 
+  // Falls back to the first online store when no default has been picked yet.
+  const defaultServerId = WooCommerceService.getActiveServer()?.id;
+  const existingTags = getStoreTags(servers);
+
   const loadServers = () => {
     const serverList = WooCommerceService.getServers();
     setServers(serverList);
   };
 
-  const handleAddServer = async (e: React.FormEvent) => {
+  const openAddForm = () => {
+    setEditingServerId(null);
+    setServerForm(EMPTY_SERVER_FORM);
+    setShowServerForm(true);
+  };
+
+  const openEditForm = (server: WooCommerceServer) => {
+    setEditingServerId(server.id);
+    setServerForm({
+      name: server.name,
+      url: server.url,
+      consumerKey: server.consumerKey,
+      consumerSecret: server.consumerSecret,
+      useQueryStringAuth: server.useQueryStringAuth ?? false,
+      tags: (server.tags ?? []).join(', '),
+      color: server.color
+    });
+    setShowServerForm(true);
+  };
+
+  const closeServerForm = () => {
+    setShowServerForm(false);
+    setEditingServerId(null);
+    setServerForm(EMPTY_SERVER_FORM);
+  };
+
+  const verifyAndStore = async (server: WooCommerceServer) => {
+    const credentialCheck = await verifyServerCredentials(server);
+    WooCommerceService.updateServer(server.id, { credentialCheck });
+  };
+
+  const handleSaveServer = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
     setError(null);
 
     try {
-      const server = await WooCommerceService.addServer(newServer);
-      const { status, errorMessage } = await WooCommerceService.checkServerStatus(server);
-      
-      WooCommerceService.updateServer(server.id, { status, errorMessage });
-      setShowAddServer(false);
-      setNewServer({ name: '', url: '', consumerKey: '', consumerSecret: '' });
+      const values = { ...serverForm, tags: parseTags(serverForm.tags) };
+      let server: WooCommerceServer;
+      if (editingServerId) {
+        const existing = servers.find(s => s.id === editingServerId);
+        if (!existing) {
+          throw new Error('This server no longer exists');
+        }
+        // A previous verification or the cached store settings say nothing about a different URL or key.
+        server = { ...existing, ...values, credentialCheck: undefined, storeLocale: undefined };
+        WooCommerceService.updateServer(server.id, { ...values, credentialCheck: undefined, storeLocale: undefined });
+      } else {
+        server = await WooCommerceService.addServer(values);
+      }
+
+      await Promise.all([
+        WooCommerceService.checkAndUpdateServer(server),
+        verifyAndStore(server)
+      ]);
+      closeServerForm();
       loadServers();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add server');
+      setError(err instanceof Error ? err.message : 'Failed to save server');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleVerifyServer = async (server: WooCommerceServer) => {
+    setVerifyingServerId(server.id);
+    setError(null);
+    try {
+      await verifyAndStore(server);
+      loadServers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify credentials');
+    } finally {
+      setVerifyingServerId(null);
+    }
+  };
+
   const handleDeleteServer = (serverId: string) => {
     if (window.confirm('Are you sure you want to delete this server?')) {
       WooCommerceService.deleteServer(serverId);
@@ -81,7 +206,7 @@ const WooCommerceSettings: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-800">WooCommerce Servers</h2>
           <div className="flex space-x-2">
             <button
-              onClick={() => setShowAddServer(true)}
+              onClick={openAddForm}
               className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
             >
               <Plus className="w-5 h-5 mr-2" />
@@ -110,16 +235,20 @@ const WooCommerceSettings: React.FC = () => {
           </div>
         )}
 
-        {showAddServer && (
+        <MonitoringSettingsPanel />
+
+        <ExchangeRatesPanel servers={servers} />
+
+        {showServerForm && (
           <div className="mb-6 bg-gray-50 p-4 rounded-lg">
-            <h3 className="text-lg font-semibold mb-4">Add New Server</h3>
-            <form onSubmit={handleAddServer} className="space-y-4">
+            <h3 className="text-lg font-semibold mb-4">{editingServerId ? 'Edit Server' : 'Add New Server'}</h3>
+            <form onSubmit={handleSaveServer} className="space-y-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700">Server Name</label>
                 <input
                   type="text"
-                  value={newServer.name}
-                  onChange={(e) => setNewServer({ ...newServer, name: e.target.value })}
+                  value={serverForm.name}
+                  onChange={(e) => setServerForm({ ...serverForm, name: e.target.value })}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
                   required
                 />
@@ -128,18 +257,56 @@ const WooCommerceSettings: React.FC = () => {
                 <label className="block text-sm font-medium text-gray-700">Server URL</label>
                 <input
                   type="url"
-                  value={newServer.url}
-                  onChange={(e) => setNewServer({ ...newServer, url: e.target.value })}
+                  value={serverForm.url}
+                  onChange={(e) => setServerForm({ ...serverForm, url: e.target.value })}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
                   required
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Tags</label>
+                <input
+                  type="text"
+                  value={serverForm.tags}
+                  onChange={(e) => setServerForm({ ...serverForm, tags: e.target.value })}
+                  placeholder="e.g. Acme, EU"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                />
+                {existingTags.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-500">In use: {existingTags.join(', ')}</p>
+                )}
+              </div>
+              <div>
+                <span className="block text-sm font-medium text-gray-700">Badge Colour</span>
+                <div className="mt-2 flex space-x-2">
+                  {(Object.keys(STORE_COLORS) as StoreColor[]).map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setServerForm({ ...serverForm, color })}
+                      className={`w-6 h-6 rounded-full ${STORE_COLORS[color].swatch} ${
+                        serverForm.color === color ? 'ring-2 ring-offset-2 ring-gray-500' : ''
+                      }`}
+                      title={color}
+                    />
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setServerForm({ ...serverForm, color: undefined })}
+                    className={`px-2 text-xs rounded-md border border-gray-300 text-gray-600 hover:bg-gray-100 ${
+                      serverForm.color === undefined ? 'ring-2 ring-offset-2 ring-gray-500' : ''
+                    }`}
+                  >
+                    Automatic
+                  </button>
+                </div>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700">Consumer Key</label>
                 <input
                   type="text"
-                  value={newServer.consumerKey}
-                  onChange={(e) => setNewServer({ ...newServer, consumerKey: e.target.value })}
+                  value={serverForm.consumerKey}
+                  onChange={(e) => setServerForm({ ...serverForm, consumerKey: e.target.value })}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
                   required
                 />
@@ -148,16 +315,30 @@ const WooCommerceSettings: React.FC = () => {
                 <label className="block text-sm font-medium text-gray-700">Consumer Secret</label>
                 <input
                   type="password"
-                  value={newServer.consumerSecret}
-                  onChange={(e) => setNewServer({ ...newServer, consumerSecret: e.target.value })}
+                  value={serverForm.consumerSecret}
+                  onChange={(e) => setServerForm({ ...serverForm, consumerSecret: e.target.value })}
                   className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
                   required
                 />
               </div>
+              <div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={serverForm.useQueryStringAuth}
+                    onChange={(e) => setServerForm({ ...serverForm, useQueryStringAuth: e.target.checked })}
+                    className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+                  />
+                  Send keys as query parameters
+                </label>
+                <p className="mt-1 text-xs text-gray-500">
+                  Only needed when the web server strips the Authorization header. Verifying the credentials tells you.
+                </p>
+              </div>
               <div className="flex justify-end space-x-2">
                 <button
                   type="button"
-                  onClick={() => setShowAddServer(false)}
+                  onClick={closeServerForm}
                   className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
                 >
                   Cancel
@@ -167,7 +348,7 @@ const WooCommerceSettings: React.FC = () => {
                   disabled={loading}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50"
                 >
-                  {loading ? 'Adding...' : 'Add Server'}
+                  {loading ? 'Saving...' : editingServerId ? 'Save Changes' : 'Add Server'}
                 </button>
               </div>
             </form>
@@ -179,18 +360,33 @@ const WooCommerceSettings: React.FC = () => {
             <div
               key={server.id}
               className={`border rounded-lg p-4 ${
-                server.isActive ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                server.id === defaultServerId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
               }`}
             >
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-4">
                   <Server className="w-6 h-6 text-gray-500" />
                   <div>
-                    <h3 className="text-lg font-semibold">{server.name}</h3>
+                    <h3 className="flex items-center text-lg font-semibold">
+                      <span className={`w-3 h-3 mr-2 rounded-full ${STORE_COLORS[getStoreColor(server)].swatch}`} />
+                      {server.name}
+                      {server.id === defaultServerId && (
+                        <span className="ml-2 px-2 py-0.5 align-middle rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Default
+                        </span>
+                      )}
+                    </h3>
                     <div className="flex items-center space-x-2 text-sm text-gray-500">
                       <Globe className="w-4 h-4" />
                       <span>{server.url}</span>
                     </div>
+                    {server.tags && server.tags.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {server.tags.map(tag => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">{tag}</span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </div>
                 <div className="flex items-center space-x-4">
@@ -205,13 +401,35 @@ const WooCommerceSettings: React.FC = () => {
                   >
                     {server.status}
                   </span>
-                  {!server.isActive && (
+                  <button
+                    onClick={() => setHistoryServerId(historyServerId === server.id ? null : server.id)}
+                    className={`p-2 hover:text-gray-700 ${historyServerId === server.id ? 'text-blue-600' : 'text-gray-500'}`}
+                    title="Show health history"
+                  >
+                    <Activity className="w-5 h-5" />
+                  </button>
+                  <button
+                    onClick={() => handleVerifyServer(server)}
+                    disabled={verifyingServerId === server.id}
+                    className="p-2 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                    title="Verify API key permissions"
+                  >
+                    <ShieldCheck className={`w-5 h-5 ${verifyingServerId === server.id ? 'animate-pulse' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => openEditForm(server)}
+                    className="p-2 text-gray-500 hover:text-gray-700"
+                    title="Edit server"
+                  >
+                    <Pencil className="w-5 h-5" />
+                  </button>
+                  {server.id !== defaultServerId && (
                     <button
                       onClick={() => handleSetActiveServer(server.id)}
                       className="p-2 text-gray-500 hover:text-gray-700"
-                      title="Set as active server"
+                      title="Set as default store"
                     >
-                      <Check className="w-5 h-5" />
+                      <Star className="w-5 h-5" />
                     </button>
                   )}
                   <button
@@ -228,15 +446,33 @@ const WooCommerceSettings: React.FC = () => {
                   Error: {server.errorMessage}
                 </div>
               )}
-              {server.lastChecked && (
-                <div className="mt-2 text-sm text-gray-500">
-                  Last checked: {new Date(server.lastChecked).toLocaleString()}
-                </div>
-              )}
+              {server.credentialCheck && <CredentialCheckSummary check={server.credentialCheck} />}
+              <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-sm text-gray-500">
+                <span>
+                  {server.lastChecked && `Last checked: ${new Date(server.lastChecked).toLocaleString()}`}
+                  {server.storeLocale && ` · Prices in ${server.storeLocale.currency}`}
+                </span>
+                <label className="flex items-center">
+                  Check every
+                  <select
+                    value={server.monitorInterval || ''}
+                    onChange={(e) => WooCommerceService.updateServer(server.id, {
+                      monitorInterval: e.target.value ? parseInt(e.target.value, 10) : undefined
+                    })}
+                    className="ml-2 rounded-md border-gray-300 shadow-sm text-sm focus:border-blue-300 focus:ring focus:ring-blue-200"
+                  >
+                    <option value="">Default ({formatInterval(ServerMonitor.getSettings().defaultInterval)})</option>
+                    {MONITOR_INTERVAL_OPTIONS.map(seconds => (
+                      <option key={seconds} value={seconds}>{formatInterval(seconds)}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              {historyServerId === server.id && <ServerHealthHistory server={server} />}
             </div>
           ))}
 
-          {servers.length === 0 && !showAddServer && (
+          {servers.length === 0 && !showServerForm && (
             <div className="text-center py-8 text-gray-500">
               No servers configured. Click "Add Server" to get started.
             </div>
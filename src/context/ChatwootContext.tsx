@@ -0,0 +1,96 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import ChatwootBridge, { ChatwootAppContext } from '../services/chatwootBridge';
+import ChatwootRecorder from '../services/chatwootRecorder';
+
+/** `unconfigured`: embedded, but no Chatwoot host is set, so no message would be trusted. */
+export type ChatwootContextStatus = 'idle' | 'waiting' | 'received' | 'timeout' | 'unconfigured';
+
+interface ChatwootContextValue {
+  appContext: ChatwootAppContext | null;
+  status: ChatwootContextStatus;
+  error: string | null;
+  lastReceivedAt: string | null;
+  isEmbedded: boolean;
+  requestContext: () => void;
+}
+
+const RESPONSE_TIMEOUT = 5000; // 5 seconds
+
+const ChatwootContext = createContext<ChatwootContextValue | null>(null);
+
+export const ChatwootProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [appContext, setAppContext] = useState<ChatwootAppContext | null>(null);
+  const [status, setStatus] = useState<ChatwootContextStatus>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [lastReceivedAt, setLastReceivedAt] = useState<string | null>(null);
+  const timeoutRef = useRef<number | null>(null);
+  const isEmbedded = ChatwootBridge.isEmbedded();
+
+  const clearResponseTimeout = () => {
+    if (timeoutRef.current !== null) {
+      window.clearTimeout(timeoutRef.current);
+      timeoutRef.current = null;
+    }
+  };
+
+  const requestContext = useCallback(() => {
+    clearResponseTimeout();
+    setError(null);
+    if (ChatwootBridge.getAllowedOrigin() === null) {
+      setStatus('unconfigured');
+      return;
+    }
+    setStatus('waiting');
+
+    try {
+      ChatwootBridge.requestAppContext();
+      timeoutRef.current = window.setTimeout(() => {
+        timeoutRef.current = null;
+        setStatus('timeout');
+        setError('No response received from Chatwoot. Please try again.');
+      }, RESPONSE_TIMEOUT);
+    } catch (err) {
+      console.error('Error requesting Chatwoot data:', err);
+      setStatus('timeout');
+      setError('Failed to request Chatwoot data. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    // Record from the very first request so the debug page can export the whole session.
+    ChatwootRecorder.start();
+
+    const unsubscribe = ChatwootBridge.subscribe((context) => {
+      clearResponseTimeout();
+      setAppContext(context);
+      setStatus('received');
+      setError(null);
+      setLastReceivedAt(new Date().toISOString());
+    });
+
+    if (isEmbedded) {
+      requestContext();
+    }
+
+    return () => {
+      unsubscribe();
+      clearResponseTimeout();
+    };
+  }, [isEmbedded, requestContext]);
+
+  return (
+    <ChatwootContext.Provider
+      value={{ appContext, status, error, lastReceivedAt, isEmbedded, requestContext }}
+    >
+      {children}
+    </ChatwootContext.Provider>
+  );
+};
+
+export const useChatwoot = (): ChatwootContextValue => {
+  const value = useContext(ChatwootContext);
+  if (!value) {
+    throw new Error('useChatwoot must be used within a ChatwootProvider');
+  }
+  return value;
+};
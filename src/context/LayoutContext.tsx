@@ -0,0 +1,40 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useChatwoot } from './ChatwootContext';
+
+interface LayoutContextValue {
+  compact: boolean;
+}
+
+// Chatwoot's dashboard-app panel is roughly 400px wide; anything below this gets the compact layout.
+const COMPACT_BREAKPOINT = 640;
+
+const LayoutContext = createContext<LayoutContextValue | null>(null);
+
+const isNarrowViewport = () => window.innerWidth < COMPACT_BREAKPOINT;
+
+export const LayoutProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { isEmbedded } = useChatwoot();
+  const [isNarrow, setIsNarrow] = useState(isNarrowViewport);
+
+  useEffect(() => {
+    const handleResize = () => setIsNarrow(isNarrowViewport());
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+    };
+  }, []);
+
+  return (
+    <LayoutContext.Provider value={{ compact: isEmbedded || isNarrow }}>
+      {children}
+    </LayoutContext.Provider>
+  );
+};
+
+export const useLayout = (): LayoutContextValue => {
+  const value = useContext(LayoutContext);
+  if (!value) {
+    throw new Error('useLayout must be used within a LayoutProvider');
+  }
+  return value;
+};
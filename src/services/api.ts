@@ -1,4 +1,5 @@
-import axios from 'axios';
+import { scheduledAxios } from './requestScheduler';
+import CredentialVault from './credentialVault';
 
 export interface DashboardData {
   totalUsers: number;
@@ -11,14 +12,14 @@ export const fetchDashboardData = async (): Promise<DashboardData> => {
   try {
     // Fetch WooCommerce data
     const wooCommerceUrl = localStorage.getItem('woocommerce_url');
-    const consumerKey = localStorage.getItem('woocommerce_consumer_key');
-    const consumerSecret = localStorage.getItem('woocommerce_consumer_secret');
+    const consumerKey = CredentialVault.getItem('woocommerce_consumer_key');
+    const consumerSecret = CredentialVault.getItem('woocommerce_consumer_secret');
 
     if (!wooCommerceUrl || !consumerKey || !consumerSecret) {
       throw new Error('WooCommerce settings are not configured. Please set them in the WooCommerce Settings page.');
     }
 
-    const wooCommerceResponse = await axios.get(`${wooCommerceUrl}/wp-json/wc/v3/reports/sales`, {
+    const wooCommerceResponse = await scheduledAxios.get(`${wooCommerceUrl}/wp-json/wc/v3/reports/sales`, {
       auth: {
         username: consumerKey,
         password: consumerSecret
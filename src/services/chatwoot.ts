@@ -0,0 +1,302 @@
+import axios from 'axios';
+import CredentialVault from './credentialVault';
+
+export interface ChatwootConfig {
+  url: string;
+  accountId: string;
+  apiToken: string;
+}
+
+export interface ChatwootProfile {
+  id: number;
+  name: string;
+  email: string;
+  accounts: Array<{
+    id: number;
+    name: string;
+    role: string;
+  }>;
+}
+
+export interface ChatwootApiContact {
+  id: number;
+  name: string;
+  email: string | null;
+  phone_number: string | null;
+  custom_attributes: Record<string, unknown>;
+  additional_attributes: Record<string, unknown>;
+}
+
+export interface ChatwootApiMessage {
+  id: number;
+  content: string;
+  message_type: number;
+  private: boolean;
+  created_at: number;
+}
+
+export interface ChatwootMessageOptions {
+  /** Private notes are only visible to agents. */
+  private: boolean;
+  messageType?: 'outgoing' | 'incoming';
+}
+
+export interface ChatwootError {
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DebugCallback {
+  (step: string, details: Record<string, unknown>): void;
+}
+
+const STORAGE_KEYS = {
+  url: 'chatwoot_url',
+  accountId: 'chatwoot_account_id',
+  apiToken: 'chatwoot_api_token'
+};
+
+export const getChatwootConfig = (): ChatwootConfig | null => {
+  const url = localStorage.getItem(STORAGE_KEYS.url);
+  const accountId = localStorage.getItem(STORAGE_KEYS.accountId);
+  const apiToken = CredentialVault.getItem(STORAGE_KEYS.apiToken);
+
+  if (!url || !accountId || !apiToken) {
+    return null;
+  }
+  return { url, accountId, apiToken };
+};
+
+export const saveChatwootConfig = (config: ChatwootConfig): void => {
+  localStorage.setItem(STORAGE_KEYS.url, config.url);
+  localStorage.setItem(STORAGE_KEYS.accountId, config.accountId);
+  CredentialVault.setItem(STORAGE_KEYS.apiToken, config.apiToken);
+};
+
+export const requireChatwootConfig = (): ChatwootConfig => {
+  const config = getChatwootConfig();
+  if (!config) {
+    throw new Error('Chatwoot API settings are not configured. Please set them in the Chatwoot Settings page.');
+  }
+  return config;
+};
+
+// Unlike ERPNext, an explicit http:// scheme is kept so a local mock server can be used.
+const normalizeUrl = (url: string): string => {
+  let normalizedUrl = url.trim();
+  if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
+    normalizedUrl = `https://${normalizedUrl}`;
+  }
+  return normalizedUrl.replace(/\/+$/, '');
+};
+
+const accountUrl = (config: ChatwootConfig): string =>
+  `${normalizeUrl(config.url)}/api/v1/accounts/${encodeURIComponent(config.accountId.trim())}`;
+
+const authHeaders = (config: ChatwootConfig) => ({
+  'api_access_token': config.apiToken,
+  'Accept': 'application/json'
+});
+
+const handleAxiosError = (error: unknown): ChatwootError => {
+  if (axios.isAxiosError(error)) {
+    return {
+      message: error.response?.data?.message || error.response?.data?.error || error.message,
+      details: {
+        status: error.response?.status,
+        data: error.response?.data,
+        url: error.config?.url,
+        method: error.config?.method
+      }
+    };
+  }
+  return {
+    message: error instanceof Error ? error.message : 'An unknown error occurred'
+  };
+};
+
+export const testChatwootConnection = async (
+  config: ChatwootConfig,
+  debug?: DebugCallback
+): Promise<{ success: boolean; message: string; details?: Record<string, unknown> }> => {
+  try {
+    const baseUrl = normalizeUrl(config.url);
+    debug?.('URL normalized', { originalUrl: config.url, normalizedUrl: baseUrl });
+
+    debug?.('Fetching agent profile', {
+      url: `${baseUrl}/api/v1/profile`,
+      method: 'GET',
+      apiTokenLength: config.apiToken.length
+    });
+
+    const profileResponse = await axios.get<ChatwootProfile>(`${baseUrl}/api/v1/profile`, {
+      headers: authHeaders(config)
+    });
+
+    debug?.('Profile response received', {
+      status: profileResponse.status,
+      statusText: profileResponse.statusText,
+      user: profileResponse.data?.email,
+      accounts: profileResponse.data?.accounts?.map(account => account.id)
+    });
+
+    const account = profileResponse.data?.accounts?.find(
+      a => String(a.id) === config.accountId.trim()
+    );
+    if (!account) {
+      debug?.('Account not accessible', { accountId: config.accountId });
+      return {
+        success: false,
+        message: `Connection failed: the API token has no access to account ${config.accountId}`
+      };
+    }
+
+    debug?.('Checking account access', {
+      url: `${accountUrl(config)}/conversations/meta`,
+      method: 'GET'
+    });
+
+    const metaResponse = await axios.get(`${accountUrl(config)}/conversations/meta`, {
+      headers: authHeaders(config)
+    });
+
+    debug?.('Account access confirmed', {
+      status: metaResponse.status,
+      data: metaResponse.data
+    });
+
+    return {
+      success: true,
+      message: `Successfully connected to Chatwoot account "${account.name}" as ${profileResponse.data.name}`,
+      details: {
+        user: profileResponse.data.email,
+        role: account.role,
+        timestamp: new Date().toISOString()
+      }
+    };
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    debug?.('Connection test failed', { ...formattedError });
+    return {
+      success: false,
+      message: `Connection failed: ${formattedError.message}`,
+      details: formattedError.details
+    };
+  }
+};
+
+export const createConversationMessage = async (
+  config: ChatwootConfig,
+  conversationId: number,
+  content: string,
+  options: ChatwootMessageOptions
+): Promise<ChatwootApiMessage> => {
+  try {
+    const response = await axios.post<ChatwootApiMessage>(
+      `${accountUrl(config)}/conversations/${conversationId}/messages`,
+      {
+        content,
+        message_type: options.messageType || 'outgoing',
+        private: options.private
+      },
+      { headers: authHeaders(config) }
+    );
+    return response.data;
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to send message: ${formattedError.message}`);
+  }
+};
+
+export const fetchContact = async (
+  config: ChatwootConfig,
+  contactId: number
+): Promise<ChatwootApiContact> => {
+  try {
+    const response = await axios.get(`${accountUrl(config)}/contacts/${contactId}`, {
+      headers: authHeaders(config)
+    });
+    return response.data?.payload;
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to fetch contact: ${formattedError.message}`);
+  }
+};
+
+/** Merges the given attributes into the contact's existing custom attributes. */
+export const updateContactCustomAttributes = async (
+  config: ChatwootConfig,
+  contactId: number,
+  attributes: Record<string, unknown>
+): Promise<ChatwootApiContact> => {
+  try {
+    const contact = await fetchContact(config, contactId);
+    const response = await axios.put(
+      `${accountUrl(config)}/contacts/${contactId}`,
+      {
+        custom_attributes: {
+          ...(contact?.custom_attributes || {}),
+          ...attributes
+        }
+      },
+      { headers: authHeaders(config) }
+    );
+    return response.data?.payload;
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to update contact attributes: ${formattedError.message}`);
+  }
+};
+
+export const fetchContactLabels = async (
+  config: ChatwootConfig,
+  contactId: number
+): Promise<string[]> => {
+  try {
+    const response = await axios.get(`${accountUrl(config)}/contacts/${contactId}/labels`, {
+      headers: authHeaders(config)
+    });
+    return response.data?.payload || [];
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to fetch contact labels: ${formattedError.message}`);
+  }
+};
+
+/** Replaces the contact's labels with the given list. */
+export const setContactLabels = async (
+  config: ChatwootConfig,
+  contactId: number,
+  labels: string[]
+): Promise<string[]> => {
+  try {
+    const response = await axios.post(
+      `${accountUrl(config)}/contacts/${contactId}/labels`,
+      { labels },
+      { headers: authHeaders(config) }
+    );
+    return response.data?.payload || [];
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to update contact labels: ${formattedError.message}`);
+  }
+};
+
+/** Replaces the conversation's labels with the given list. */
+export const setConversationLabels = async (
+  config: ChatwootConfig,
+  conversationId: number,
+  labels: string[]
+): Promise<string[]> => {
+  try {
+    const response = await axios.post(
+      `${accountUrl(config)}/conversations/${conversationId}/labels`,
+      { labels },
+      { headers: authHeaders(config) }
+    );
+    return response.data?.payload || [];
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to update conversation labels: ${formattedError.message}`);
+  }
+};
@@ -0,0 +1,322 @@
+export interface ChatwootContact {
+  id: number;
+  name: string;
+  email: string | null;
+  phone_number: string | null;
+  identifier: string | null;
+  thumbnail?: string;
+  additional_attributes: Record<string, unknown>;
+  custom_attributes: Record<string, unknown>;
+}
+
+export interface ChatwootAgent {
+  id: number;
+  name: string;
+  email: string;
+}
+
+export interface ChatwootMessage {
+  id: number;
+  content: string | null;
+  message_type: number;
+  created_at: number;
+  private: boolean;
+}
+
+export interface ChatwootConversation {
+  id: number;
+  account_id: number;
+  inbox_id: number;
+  status: string;
+  labels: string[];
+  messages: ChatwootMessage[];
+  custom_attributes: Record<string, unknown>;
+}
+
+export interface ChatwootAppContext {
+  conversation: ChatwootConversation;
+  contact: ChatwootContact;
+  currentAgent: ChatwootAgent;
+}
+
+export type ChatwootMessageDirection = 'inbound' | 'outbound';
+
+export interface ChatwootBridgeMessage {
+  timestamp: string;
+  direction: ChatwootMessageDirection;
+  origin: string;
+  data: unknown;
+  accepted: boolean;
+  error?: string;
+  /** Set for messages injected from a recorded session rather than received from Chatwoot. */
+  replayed?: boolean;
+}
+
+interface AppContextCallback {
+  (context: ChatwootAppContext): void;
+}
+
+interface BridgeMessageCallback {
+  (message: ChatwootBridgeMessage): void;
+}
+
+type ValidationResult<T> = { valid: true; value: T } | { valid: false; error: string };
+
+export const FETCH_INFO_MESSAGE = 'chatwoot-dashboard-app:fetch-info';
+export const APP_CONTEXT_EVENT = 'appContext';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+const validateContact = (raw: unknown): ValidationResult<ChatwootContact> => {
+  if (!isRecord(raw)) return { valid: false, error: 'contact must be an object' };
+  if (typeof raw.id !== 'number') return { valid: false, error: 'contact.id must be a number' };
+
+  return {
+    valid: true,
+    value: {
+      id: raw.id,
+      name: typeof raw.name === 'string' ? raw.name : '',
+      email: optionalString(raw.email),
+      phone_number: optionalString(raw.phone_number),
+      identifier: optionalString(raw.identifier),
+      thumbnail: optionalString(raw.thumbnail) ?? undefined,
+      additional_attributes: isRecord(raw.additional_attributes) ? raw.additional_attributes : {},
+      custom_attributes: isRecord(raw.custom_attributes) ? raw.custom_attributes : {}
+    }
+  };
+};
+
+const validateAgent = (raw: unknown): ValidationResult<ChatwootAgent> => {
+  if (!isRecord(raw)) return { valid: false, error: 'currentAgent must be an object' };
+  if (typeof raw.id !== 'number') return { valid: false, error: 'currentAgent.id must be a number' };
+
+  return {
+    valid: true,
+    value: {
+      id: raw.id,
+      name: typeof raw.name === 'string' ? raw.name : '',
+      email: typeof raw.email === 'string' ? raw.email : ''
+    }
+  };
+};
+
+const validateMessage = (raw: unknown): ChatwootMessage | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'number') return null;
+  return {
+    id: raw.id,
+    content: typeof raw.content === 'string' ? raw.content : null,
+    message_type: typeof raw.message_type === 'number' ? raw.message_type : 0,
+    created_at: typeof raw.created_at === 'number' ? raw.created_at : 0,
+    private: raw.private === true
+  };
+};
+
+const validateConversation = (raw: unknown): ValidationResult<ChatwootConversation> => {
+  if (!isRecord(raw)) return { valid: false, error: 'conversation must be an object' };
+  if (typeof raw.id !== 'number') return { valid: false, error: 'conversation.id must be a number' };
+
+  const messages = Array.isArray(raw.messages)
+    ? raw.messages.map(validateMessage).filter((m): m is ChatwootMessage => m !== null)
+    : [];
+
+  return {
+    valid: true,
+    value: {
+      id: raw.id,
+      account_id: typeof raw.account_id === 'number' ? raw.account_id : 0,
+      inbox_id: typeof raw.inbox_id === 'number' ? raw.inbox_id : 0,
+      status: typeof raw.status === 'string' ? raw.status : 'open',
+      labels: Array.isArray(raw.labels) ? raw.labels.filter((l): l is string => typeof l === 'string') : [],
+      messages,
+      custom_attributes: isRecord(raw.custom_attributes) ? raw.custom_attributes : {}
+    }
+  };
+};
+
+/**
+ * Parses a raw postMessage payload into a validated `appContext` event.
+ * Chatwoot sends the payload as a JSON string, but objects are accepted as well.
+ */
+export const parseAppContextEvent = (payload: unknown): ValidationResult<ChatwootAppContext> => {
+  let event: unknown = payload;
+
+  if (typeof payload === 'string') {
+    try {
+      event = JSON.parse(payload);
+    } catch {
+      return { valid: false, error: 'Payload is not valid JSON' };
+    }
+  }
+
+  if (!isRecord(event)) return { valid: false, error: 'Payload must be an object' };
+  if (event.event !== APP_CONTEXT_EVENT) {
+    return { valid: false, error: `Unsupported event "${String(event.event)}"` };
+  }
+  if (!isRecord(event.data)) return { valid: false, error: 'Event data must be an object' };
+
+  const conversation = validateConversation(event.data.conversation);
+  if (!conversation.valid) return conversation;
+
+  const contact = validateContact(event.data.contact);
+  if (!contact.valid) return contact;
+
+  const currentAgent = validateAgent(event.data.currentAgent);
+  if (!currentAgent.valid) return currentAgent;
+
+  return {
+    valid: true,
+    value: {
+      conversation: conversation.value,
+      contact: contact.value,
+      currentAgent: currentAgent.value
+    }
+  };
+};
+
+const toOrigin = (url: string | null | undefined): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url.trim()).origin;
+  } catch {
+    return null;
+  }
+};
+
+class ChatwootBridge {
+  private static HOST_STORAGE_KEY = 'chatwoot_url';
+  private static contextCallbacks: AppContextCallback[] = [];
+  private static messageCallbacks: BridgeMessageCallback[] = [];
+  private static listening = false;
+
+  /**
+   * The Chatwoot origin messages are accepted from: the configured host. Without one no
+   * origin is trusted, since any page can embed the app and claim to be Chatwoot.
+   */
+  static getAllowedOrigin(): string | null {
+    // In development the app may be hosted by the local simulator page instead of Chatwoot.
+    if (import.meta.env.DEV && this.hasSameOriginParent()) return window.location.origin;
+
+    return toOrigin(localStorage.getItem(this.HOST_STORAGE_KEY))
+      ?? toOrigin(import.meta.env.VITE_CHATWOOT_URL);
+  }
+
+  static isEmbedded(): boolean {
+    return window.parent !== window;
+  }
+
+  private static hasSameOriginParent(): boolean {
+    if (!this.isEmbedded()) return false;
+    try {
+      return window.parent.location.origin === window.location.origin;
+    } catch {
+      // Reading a cross-origin parent's location throws.
+      return false;
+    }
+  }
+
+  static isTrustedOrigin(origin: string): boolean {
+    const allowed = this.getAllowedOrigin();
+    return allowed !== null && allowed === origin;
+  }
+
+  /** Asks the embedding Chatwoot window for the app context. Throws when no host is configured. */
+  static requestAppContext(): void {
+    const targetOrigin = this.getAllowedOrigin();
+    if (!targetOrigin) {
+      throw new Error('No Chatwoot host is configured');
+    }
+    window.parent.postMessage(FETCH_INFO_MESSAGE, targetOrigin);
+    this.notifyMessageCallbacks({
+      timestamp: new Date().toISOString(),
+      direction: 'outbound',
+      origin: targetOrigin,
+      data: FETCH_INFO_MESSAGE,
+      accepted: true
+    });
+  }
+
+  static subscribe(callback: AppContextCallback): () => void {
+    this.contextCallbacks.push(callback);
+    this.ensureListening();
+    return () => {
+      this.contextCallbacks = this.contextCallbacks.filter(cb => cb !== callback);
+      this.releaseListenerIfIdle();
+    };
+  }
+
+  static onMessage(callback: BridgeMessageCallback): () => void {
+    this.messageCallbacks.push(callback);
+    this.ensureListening();
+    return () => {
+      this.messageCallbacks = this.messageCallbacks.filter(cb => cb !== callback);
+      this.releaseListenerIfIdle();
+    };
+  }
+
+  /**
+   * Feeds a previously recorded payload through the same origin check and validation as a
+   * live message, so events rejected when they were recorded are rejected again.
+   */
+  static replayMessage(data: unknown, origin: string): void {
+    this.processPayload(data, origin, true);
+  }
+
+  private static handleMessage = (event: MessageEvent): void => {
+    // Only messages from the embedding Chatwoot window are considered.
+    if (event.source !== window.parent || event.source === window) return;
+
+    ChatwootBridge.processPayload(event.data, event.origin, false);
+  };
+
+  private static processPayload(data: unknown, origin: string, replayed: boolean): void {
+    const record: ChatwootBridgeMessage = {
+      timestamp: new Date().toISOString(),
+      direction: 'inbound',
+      origin,
+      data,
+      accepted: false
+    };
+    if (replayed) record.replayed = true;
+
+    if (!this.isTrustedOrigin(origin)) {
+      record.error = `Untrusted origin ${origin}`;
+      this.notifyMessageCallbacks(record);
+      return;
+    }
+
+    const result = parseAppContextEvent(data);
+    if (!result.valid) {
+      record.error = result.error;
+      this.notifyMessageCallbacks(record);
+      return;
+    }
+
+    record.accepted = true;
+    this.notifyMessageCallbacks(record);
+    this.contextCallbacks.forEach(callback => callback(result.value));
+  }
+
+  private static ensureListening(): void {
+    if (!this.listening) {
+      window.addEventListener('message', this.handleMessage);
+      this.listening = true;
+    }
+  }
+
+  private static releaseListenerIfIdle(): void {
+    if (this.listening && this.contextCallbacks.length === 0 && this.messageCallbacks.length === 0) {
+      window.removeEventListener('message', this.handleMessage);
+      this.listening = false;
+    }
+  }
+
+  private static notifyMessageCallbacks(message: ChatwootBridgeMessage): void {
+    this.messageCallbacks.forEach(callback => callback(message));
+  }
+}
+
+export default ChatwootBridge;
@@ -0,0 +1,118 @@
+import ChatwootBridge, { ChatwootBridgeMessage } from './chatwootBridge';
+
+export interface RecordedSession {
+  version: 1;
+  exportedAt: string;
+  appUrl: string;
+  events: ChatwootBridgeMessage[];
+}
+
+interface RecorderCallback {
+  (events: ChatwootBridgeMessage[]): void;
+}
+
+const SESSION_VERSION = 1;
+
+const isBridgeMessage = (value: unknown): value is ChatwootBridgeMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.timestamp === 'string' &&
+    (record.direction === 'inbound' || record.direction === 'outbound') &&
+    typeof record.origin === 'string' &&
+    typeof record.accepted === 'boolean' &&
+    'data' in record
+  );
+};
+
+const wait = (ms: number) => new Promise(resolve => window.setTimeout(resolve, ms));
+
+class ChatwootRecorder {
+  private static MAX_EVENTS = 500;
+  private static MAX_REPLAY_DELAY = 3000; // 3 seconds
+  private static events: ChatwootBridgeMessage[] = [];
+  private static callbacks: RecorderCallback[] = [];
+  private static unsubscribeBridge: (() => void) | null = null;
+
+  /** Starts recording every message the bridge sees. Safe to call more than once. */
+  static start(): void {
+    if (this.unsubscribeBridge === null) {
+      this.unsubscribeBridge = ChatwootBridge.onMessage((message) => {
+        this.events = [...this.events, message].slice(-this.MAX_EVENTS);
+        this.notifyCallbacks();
+      });
+    }
+  }
+
+  static getEvents(): ChatwootBridgeMessage[] {
+    return this.events;
+  }
+
+  static clear(): void {
+    this.events = [];
+    this.notifyCallbacks();
+  }
+
+  static subscribe(callback: RecorderCallback): () => void {
+    this.callbacks.push(callback);
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  static exportSession(events: ChatwootBridgeMessage[] = this.events): string {
+    const session: RecordedSession = {
+      version: SESSION_VERSION,
+      exportedAt: new Date().toISOString(),
+      appUrl: window.location.href,
+      events
+    };
+    return JSON.stringify(session, null, 2);
+  }
+
+  static importSession(json: string): RecordedSession {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    const session = parsed as Partial<RecordedSession>;
+    if (typeof parsed !== 'object' || parsed === null || session.version !== SESSION_VERSION) {
+      throw new Error('The file is not a recorded Chatwoot debug session.');
+    }
+    if (!Array.isArray(session.events) || !session.events.every(isBridgeMessage)) {
+      throw new Error('The session contains malformed events.');
+    }
+
+    return session as RecordedSession;
+  }
+
+  /**
+   * Replays the inbound events of a session through the bridge. With `preserveTiming`
+   * the original gaps between events are kept, capped at a few seconds each.
+   */
+  static async replay(
+    events: ChatwootBridgeMessage[],
+    options: { preserveTiming: boolean },
+    onProgress?: (replayed: number, total: number) => void
+  ): Promise<void> {
+    const inbound = events.filter(event => event.direction === 'inbound');
+
+    for (let index = 0; index < inbound.length; index++) {
+      if (options.preserveTiming && index > 0) {
+        const gap = new Date(inbound[index].timestamp).getTime() - new Date(inbound[index - 1].timestamp).getTime();
+        await wait(Math.min(Math.max(gap, 0), this.MAX_REPLAY_DELAY));
+      }
+      ChatwootBridge.replayMessage(inbound[index].data, inbound[index].origin);
+      onProgress?.(index + 1, inbound.length);
+    }
+  }
+
+  private static notifyCallbacks(): void {
+    this.callbacks.forEach(callback => callback(this.events));
+  }
+}
+
+export default ChatwootRecorder;
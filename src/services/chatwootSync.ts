@@ -0,0 +1,199 @@
+import {
+  ChatwootConfig,
+  fetchContactLabels,
+  setContactLabels,
+  updateContactCustomAttributes
+} from './chatwoot';
+import { normalizeEmail, WooCommerceContactMatch } from './contactMatching';
+import WooCommerceClient, { WooCommerceOrder } from './wooCommerceClient';
+import { sumInBaseCurrency } from './exchangeRates';
+
+export interface CommerceFacts {
+  storeId: string;
+  storeName: string;
+  customerId: number | null;
+  orderCount: number;
+  openOrderCount: number;
+  /** In the store's currency; see `currency`. */
+  lifetimeSpend: number;
+  currency: string | null;
+  lastOrderDate: string | null;
+}
+
+export type LabelRuleField = 'orderCount' | 'openOrderCount' | 'lifetimeSpend' | 'daysSinceLastOrder';
+export type LabelRuleOperator = 'gte' | 'lte';
+
+export interface LabelRule {
+  id: string;
+  label: string;
+  field: LabelRuleField;
+  operator: LabelRuleOperator;
+  value: number;
+  enabled: boolean;
+}
+
+export interface ContactSyncSettings {
+  autoSync: boolean;
+  rules: LabelRule[];
+}
+
+export interface ContactSyncResult {
+  attributes: Record<string, unknown>;
+  labels: string[];
+  /** Currencies left out of the lifetime spend because no exchange rate is set for them. */
+  missingRates: string[];
+  syncedAt: string;
+}
+
+export const LABEL_RULE_FIELDS: Record<LabelRuleField, string> = {
+  orderCount: 'Lifetime orders',
+  openOrderCount: 'Open orders',
+  lifetimeSpend: 'Lifetime spend',
+  daysSinceLastOrder: 'Days since last order'
+};
+
+const SETTINGS_STORAGE_KEY = 'chatwoot_contact_sync';
+const OPEN_ORDER_STATUSES = ['pending', 'processing', 'on-hold'];
+const PAID_ORDER_STATUSES = ['processing', 'completed'];
+const ORDERS_PER_PAGE = 100;
+const MAX_ORDER_PAGES = 10;
+
+const DEFAULT_SETTINGS: ContactSyncSettings = {
+  autoSync: false,
+  rules: [
+    { id: 'vip', label: 'vip', field: 'lifetimeSpend', operator: 'gte', value: 1000, enabled: true },
+    { id: 'has-open-order', label: 'has-open-order', field: 'openOrderCount', operator: 'gte', value: 1, enabled: true }
+  ]
+};
+
+export const getContactSyncSettings = (): ContactSyncSettings => {
+  const settingsJson = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  return settingsJson ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) } : DEFAULT_SETTINGS;
+};
+
+export const saveContactSyncSettings = (settings: ContactSyncSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/** Chatwoot stores labels lower-case with dashes instead of spaces. */
+export const normalizeLabel = (label: string): string =>
+  label.trim().toLowerCase().replace(/\s+/g, '-');
+
+const fetchAllOrders = async (match: WooCommerceContactMatch): Promise<WooCommerceOrder[]> => {
+  const { server, customer } = match;
+  const email = normalizeEmail(match.recentOrders[0]?.billing?.email);
+
+  if (!customer && !email) {
+    return match.recentOrders;
+  }
+
+  const orders = await new WooCommerceClient(server).listAllOrders(
+    customer
+      ? { customer: customer.id, per_page: ORDERS_PER_PAGE }
+      : { search: email, per_page: ORDERS_PER_PAGE },
+    MAX_ORDER_PAGES
+  );
+
+  return customer ? orders : orders.filter(order => normalizeEmail(order.billing?.email) === email);
+};
+
+export const collectCommerceFacts = async (match: WooCommerceContactMatch): Promise<CommerceFacts> => {
+  const orders = await fetchAllOrders(match);
+
+  const lastOrderDate = orders.reduce<string | null>((latest, order) =>
+    !latest || new Date(order.date_created) > new Date(latest) ? order.date_created : latest, null);
+
+  return {
+    storeId: match.server.id,
+    storeName: match.server.name,
+    customerId: match.customer?.id ?? null,
+    orderCount: orders.length,
+    openOrderCount: orders.filter(order => OPEN_ORDER_STATUSES.includes(order.status)).length,
+    lifetimeSpend: orders
+      .filter(order => PAID_ORDER_STATUSES.includes(order.status))
+      .reduce((sum, order) => sum + parseFloat(order.total || '0'), 0),
+    currency: orders[0]?.currency || match.server.storeLocale?.currency || null,
+    lastOrderDate
+  };
+};
+
+const aggregateFacts = (facts: CommerceFacts[]) => {
+  const lastOrderDate = facts.reduce<string | null>((latest, f) =>
+    f.lastOrderDate && (!latest || new Date(f.lastOrderDate) > new Date(latest)) ? f.lastOrderDate : latest, null);
+
+  // Spend across stores in different currencies is converted into the base currency.
+  const spend = sumInBaseCurrency(facts.map(f => ({ amount: f.lifetimeSpend, currency: f.currency })));
+
+  return {
+    orderCount: facts.reduce((sum, f) => sum + f.orderCount, 0),
+    openOrderCount: facts.reduce((sum, f) => sum + f.openOrderCount, 0),
+    lifetimeSpend: spend.total,
+    lifetimeSpendCurrency: spend.currency,
+    missingRates: spend.missingRates,
+    daysSinceLastOrder: lastOrderDate
+      ? Math.floor((Date.now() - new Date(lastOrderDate).getTime()) / (24 * 60 * 60 * 1000))
+      : null,
+    lastOrderDate
+  };
+};
+
+export const evaluateLabelRules = (facts: CommerceFacts[], rules: LabelRule[]): string[] => {
+  const totals = aggregateFacts(facts);
+
+  const labels = rules
+    .filter(rule => rule.enabled && rule.label.trim())
+    .filter(rule => {
+      const actual = totals[rule.field];
+      if (actual === null) return false;
+      return rule.operator === 'gte' ? actual >= rule.value : actual <= rule.value;
+    })
+    .map(rule => normalizeLabel(rule.label));
+
+  return Array.from(new Set(labels));
+};
+
+export const buildContactAttributes = (facts: CommerceFacts[]): Record<string, unknown> => {
+  const totals = aggregateFacts(facts);
+
+  return {
+    woo_store: facts.map(f => f.storeName).join(', '),
+    woo_customer_id: facts
+      .filter(f => f.customerId !== null)
+      .map(f => (facts.length > 1 ? `${f.storeName}:${f.customerId}` : String(f.customerId)))
+      .join(', '),
+    woo_order_count: totals.orderCount,
+    woo_lifetime_spend: Math.round(totals.lifetimeSpend * 100) / 100,
+    woo_lifetime_spend_currency: totals.lifetimeSpendCurrency,
+    woo_last_order_date: totals.lastOrderDate
+  };
+};
+
+/**
+ * Pushes commerce facts into the Chatwoot contact. Labels owned by the rules are
+ * added or removed; any other labels on the contact are left untouched.
+ */
+export const syncContactToChatwoot = async (
+  config: ChatwootConfig,
+  contactId: number,
+  facts: CommerceFacts[],
+  rules: LabelRule[]
+): Promise<ContactSyncResult> => {
+  const attributes = buildContactAttributes(facts);
+  await updateContactCustomAttributes(config, contactId, attributes);
+
+  const managedLabels = new Set(rules.map(rule => normalizeLabel(rule.label)));
+  const matchedLabels = evaluateLabelRules(facts, rules);
+  const currentLabels = await fetchContactLabels(config, contactId);
+  const labels = Array.from(new Set([
+    ...currentLabels.filter(label => !managedLabels.has(label)),
+    ...matchedLabels
+  ]));
+  await setContactLabels(config, contactId, labels);
+
+  return {
+    attributes,
+    labels,
+    missingRates: aggregateFacts(facts).missingRates,
+    syncedAt: new Date().toISOString()
+  };
+};
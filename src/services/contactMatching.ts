@@ -0,0 +1,182 @@
+import { WooCommerceServer } from './woocommerce';
+import WooCommerceClient, { WooCommerceCustomer, WooCommerceOrder } from './wooCommerceClient';
+import { ChatwootContact } from './chatwootBridge';
+
+export interface WooCommerceContactMatch {
+  server: WooCommerceServer;
+  /** Registered customer account, or null when only guest orders matched. */
+  customer: WooCommerceCustomer | null;
+  recentOrders: WooCommerceOrder[];
+  matchedBy: 'email' | 'phone';
+}
+
+export interface WooCommerceLookupResult {
+  matches: WooCommerceContactMatch[];
+  errors: Array<{ server: WooCommerceServer; message: string }>;
+}
+
+const RECENT_ORDERS_LIMIT = 5;
+
+export const normalizeEmail = (email: string | null | undefined): string =>
+  (email || '').trim().toLowerCase();
+
+/** Strips everything but digits so "+1 (555) 010-2030" and "15550102030" compare equal. */
+export const normalizePhone = (phone: string | null | undefined): string =>
+  (phone || '').replace(/\D/g, '');
+
+const MIN_PHONE_LENGTH = 7;
+/** Country calling codes have one to three digits. */
+const MAX_COUNTRY_CODE_LENGTH = 3;
+
+/**
+ * Digits of a number written in international form ("+31 6 1234 5678" or "0031 6 1234 5678"),
+ * or null for one in national form, which lacks its country code.
+ */
+const internationalDigits = (phone: string): string | null => {
+  const digits = normalizePhone(phone);
+  if (phone.trim().startsWith('+')) return digits;
+  return digits.startsWith('00') ? digits.slice(2) : null;
+};
+
+/**
+ * Compares two phone numbers in full. Numbers in international form must be equal. A number
+ * in national form ("06 1234 5678") matches when, without its trunk prefix, it is all of the
+ * other number after a country code.
+ */
+const phonesMatch = (a: string | null | undefined, b: string | null | undefined): boolean => {
+  if (!a || !b) return false;
+  const left = internationalDigits(a);
+  const right = internationalDigits(b);
+  if (left !== null && right !== null) {
+    return left.length >= MIN_PHONE_LENGTH && left === right;
+  }
+
+  const nationalA = normalizePhone(a).replace(/^0+/, '');
+  const nationalB = normalizePhone(b).replace(/^0+/, '');
+  if (left === null && right === null) {
+    return nationalA.length >= MIN_PHONE_LENGTH && nationalA === nationalB;
+  }
+
+  const [international, national] = left !== null ? [left, nationalB] : [right as string, nationalA];
+  const countryCodeLength = international.length - national.length;
+  return national.length >= MIN_PHONE_LENGTH
+    && international.endsWith(national)
+    && countryCodeLength >= 1
+    && countryCodeLength <= MAX_COUNTRY_CODE_LENGTH;
+};
+
+const withStore = (order: WooCommerceOrder, server: WooCommerceServer): WooCommerceOrder => ({
+  ...order,
+  store: {
+    id: server.id,
+    name: server.name
+  }
+});
+
+const lookupInStore = async (
+  server: WooCommerceServer,
+  contact: ChatwootContact
+): Promise<WooCommerceContactMatch | null> => {
+  const email = normalizeEmail(contact.email);
+  const client = new WooCommerceClient(server);
+
+  if (email) {
+    const customers = await client.listCustomers({ email, role: 'all' });
+    const customer = customers.items.find(c => normalizeEmail(c.email) === email) || null;
+
+    // Orders placed by a registered customer are fetched by id; guest orders only
+    // carry the billing email, so fall back to an order search for those.
+    const ordersPage = await client.listOrders(customer
+      ? { customer: customer.id, per_page: RECENT_ORDERS_LIMIT }
+      : { search: email, per_page: 20 });
+    const orders = customer
+      ? ordersPage.items
+      : ordersPage.items
+          .filter(order => normalizeEmail(order.billing?.email) === email)
+          .slice(0, RECENT_ORDERS_LIMIT);
+
+    if (customer || orders.length > 0) {
+      return {
+        server,
+        customer,
+        recentOrders: orders.map(order => withStore(order, server)),
+        matchedBy: 'email'
+      };
+    }
+  }
+
+  const phone = normalizePhone(contact.phone_number);
+  if (phone.length >= MIN_PHONE_LENGTH) {
+    // Stores format numbers in many ways, so the search only narrows the candidates down to
+    // orders containing the last digits; the full number is compared afterwards.
+    const ordersPage = await client.listOrders({ search: phone.slice(-MIN_PHONE_LENGTH), per_page: 20 });
+    const orders = ordersPage.items.filter(order => phonesMatch(order.billing?.phone, contact.phone_number));
+
+    if (orders.length > 0) {
+      const customerId = orders.find(order => order.customer_id > 0)?.customer_id;
+      const customer: WooCommerceCustomer | null = customerId ? await client.getCustomer(customerId) : null;
+
+      return {
+        server,
+        customer,
+        recentOrders: orders.slice(0, RECENT_ORDERS_LIMIT).map(order => withStore(order, server)),
+        matchedBy: 'phone'
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Searches every given store for customer accounts and guest orders belonging to
+ * the Chatwoot contact. Stores that fail are reported in `errors` rather than
+ * failing the whole lookup.
+ */
+export const findWooCommerceMatches = async (
+  servers: WooCommerceServer[],
+  contact: ChatwootContact
+): Promise<WooCommerceLookupResult> => {
+  const result: WooCommerceLookupResult = { matches: [], errors: [] };
+
+  if (!normalizeEmail(contact.email) && normalizePhone(contact.phone_number).length < MIN_PHONE_LENGTH) {
+    return result;
+  }
+
+  const outcomes = await Promise.allSettled(servers.map(server => lookupInStore(server, contact)));
+
+  outcomes.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      if (outcome.value) result.matches.push(outcome.value);
+    } else {
+      const reason = outcome.reason;
+      result.errors.push({
+        server: servers[index],
+        message: reason instanceof Error ? reason.message : 'Unknown error occurred'
+      });
+    }
+  });
+
+  return result;
+};
+
+const ERPNEXT_MATCHES_STORAGE_KEY = 'erpnext_contact_matches';
+
+const getRememberedERPNextMatches = (): Record<string, string> => {
+  const matchesJson = localStorage.getItem(ERPNEXT_MATCHES_STORAGE_KEY);
+  return matchesJson ? JSON.parse(matchesJson) : {};
+};
+
+/** Returns the ERPNext Customer an agent previously picked for this Chatwoot contact. */
+export const getRememberedERPNextCustomer = (contactId: number): string | null =>
+  getRememberedERPNextMatches()[contactId] || null;
+
+export const rememberERPNextCustomer = (contactId: number, customerName: string | null): void => {
+  const matches = getRememberedERPNextMatches();
+  if (customerName) {
+    matches[contactId] = customerName;
+  } else {
+    delete matches[contactId];
+  }
+  localStorage.setItem(ERPNEXT_MATCHES_STORAGE_KEY, JSON.stringify(matches));
+};
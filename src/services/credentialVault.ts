@@ -0,0 +1,308 @@
+import { decryptJson, deriveKey, encryptJson, EncryptedData, PBKDF2_ITERATIONS, randomSalt } from './crypto';
+
+export interface VaultSettings {
+  /** Minutes without interaction before the vault locks itself; 0 disables auto-lock. */
+  autoLockMinutes: number;
+}
+
+export interface VaultState {
+  enabled: boolean;
+  locked: boolean;
+}
+
+interface VaultRecord extends EncryptedData {
+  version: 1;
+  salt: string;
+  iterations: number;
+}
+
+interface VaultStateCallback {
+  (state: VaultState): void;
+}
+
+/** Storage keys holding credentials. While the vault is enabled they only exist inside it. */
+export const PROTECTED_KEYS = [
+  'woocommerce_server_credentials',
+  'woocommerce_consumer_key',
+  'woocommerce_consumer_secret',
+  'erpnext_api_key',
+  'erpnext_api_secret',
+  'chatwoot_api_token'
+];
+
+export const AUTO_LOCK_OPTIONS = [0, 5, 15, 30, 60];
+
+const VAULT_STORAGE_KEY = 'credential_vault';
+const SETTINGS_STORAGE_KEY = 'credential_vault_settings';
+const IDLE_CHECK_INTERVAL = 15000; // 15 seconds
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+
+const DEFAULT_SETTINGS: VaultSettings = {
+  autoLockMinutes: 15
+};
+
+/**
+ * Keeps credentials encrypted at rest with a key derived from a master passphrase.
+ * Protected keys are read and written through `getItem`/`setItem`, which fall back to
+ * plain localStorage while no passphrase is set. The derived key only lives in memory,
+ * so every page load starts locked, and the vault locks itself after a period of
+ * inactivity.
+ */
+class CredentialVault {
+  private static key: CryptoKey | null = null;
+  private static salt: string | null = null;
+  private static secrets: Record<string, string> = {};
+  private static pendingWrite: Promise<void> = Promise.resolve();
+  private static lastActivity = 0;
+  private static idleTimer: number | null = null;
+  private static listeningForStorage = false;
+  private static callbacks: VaultStateCallback[] = [];
+
+  static isEnabled(): boolean {
+    return localStorage.getItem(VAULT_STORAGE_KEY) !== null;
+  }
+
+  static isLocked(): boolean {
+    return this.isEnabled() && this.key === null;
+  }
+
+  static getState(): VaultState {
+    return { enabled: this.isEnabled(), locked: this.isLocked() };
+  }
+
+  static getSettings(): VaultSettings {
+    const settingsJson = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return settingsJson ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) } : DEFAULT_SETTINGS;
+  }
+
+  static saveSettings(settings: VaultSettings): void {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+
+  /** Reads a setting; protected keys read as null while the vault is locked. */
+  static getItem(key: string): string | null {
+    if (!PROTECTED_KEYS.includes(key) || !this.isEnabled()) {
+      return localStorage.getItem(key);
+    }
+    return this.secrets[key] ?? null;
+  }
+
+  static setItem(key: string, value: string): void {
+    if (!PROTECTED_KEYS.includes(key) || !this.isEnabled()) {
+      localStorage.setItem(key, value);
+      return;
+    }
+    this.requireUnlocked();
+    this.secrets[key] = value;
+    this.persist();
+  }
+
+  static removeItem(key: string): void {
+    if (!PROTECTED_KEYS.includes(key) || !this.isEnabled()) {
+      localStorage.removeItem(key);
+      return;
+    }
+    this.requireUnlocked();
+    delete this.secrets[key];
+    this.persist();
+  }
+
+  /** Removes and returns a value the vault still holds under a key that is no longer protected. */
+  static takeLegacyItem(key: string): string | null {
+    const value = this.secrets[key];
+    if (value === undefined || PROTECTED_KEYS.includes(key)) return null;
+    delete this.secrets[key];
+    this.persist();
+    return value;
+  }
+
+  /** Sets the master passphrase and moves the stored credentials into the vault. */
+  static async enable(passphrase: string): Promise<void> {
+    if (this.isEnabled()) {
+      throw new Error('The credential vault is already enabled');
+    }
+
+    const secrets: Record<string, string> = {};
+    PROTECTED_KEYS.forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value !== null) {
+        secrets[key] = value;
+      }
+    });
+
+    const salt = randomSalt();
+    const key = await deriveKey(passphrase, salt);
+    await this.writeRecord(key, salt, secrets);
+    PROTECTED_KEYS.forEach(protectedKey => localStorage.removeItem(protectedKey));
+
+    this.activate(key, salt, secrets);
+  }
+
+  static async unlock(passphrase: string): Promise<void> {
+    const record = this.readRecord();
+    if (!record) {
+      throw new Error('The credential vault is not enabled');
+    }
+
+    const key = await deriveKey(passphrase, record.salt, record.iterations);
+    let secrets: Record<string, string>;
+    try {
+      secrets = await decryptJson<Record<string, string>>(key, record);
+    } catch {
+      throw new Error('Incorrect passphrase');
+    }
+
+    this.activate(key, record.salt, secrets);
+  }
+
+  static lock(): void {
+    if (!this.key) return;
+    this.key = null;
+    this.salt = null;
+    this.secrets = {};
+    this.stopIdleTimer();
+    this.notifyCallbacks();
+  }
+
+  static async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    await this.pendingWrite;
+    await this.unlock(currentPassphrase);
+
+    const salt = randomSalt();
+    const key = await deriveKey(newPassphrase, salt);
+    await this.writeRecord(key, salt, this.secrets);
+    this.key = key;
+    this.salt = salt;
+  }
+
+  /** Turns the vault off and writes the credentials back to localStorage in plain text. */
+  static async disable(passphrase: string): Promise<void> {
+    await this.pendingWrite;
+    await this.unlock(passphrase);
+
+    Object.entries(this.secrets).forEach(([key, value]) => localStorage.setItem(key, value));
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    this.lock();
+    this.notifyCallbacks();
+  }
+
+  /**
+   * For a forgotten passphrase: deletes the vault and every credential in it. Store
+   * settings live outside the vault and are kept, minus their API keys.
+   */
+  static reset(): void {
+    localStorage.removeItem(VAULT_STORAGE_KEY);
+    this.lock();
+    this.notifyCallbacks();
+  }
+
+  /**
+   * Calls back when the vault is enabled, disabled, locked or unlocked, and when another
+   * tab changes its contents. Returns an unsubscribe function.
+   */
+  static subscribe(callback: VaultStateCallback): () => void {
+    this.callbacks.push(callback);
+
+    if (!this.listeningForStorage) {
+      window.addEventListener('storage', this.handleStorage);
+      this.listeningForStorage = true;
+    }
+
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+      if (this.callbacks.length === 0 && this.listeningForStorage) {
+        window.removeEventListener('storage', this.handleStorage);
+        this.listeningForStorage = false;
+      }
+    };
+  }
+
+  private static requireUnlocked(): void {
+    if (!this.key) {
+      throw new Error('The credential vault is locked');
+    }
+  }
+
+  private static readRecord(): VaultRecord | null {
+    const recordJson = localStorage.getItem(VAULT_STORAGE_KEY);
+    return recordJson ? JSON.parse(recordJson) : null;
+  }
+
+  private static async writeRecord(key: CryptoKey, salt: string, secrets: Record<string, string>): Promise<void> {
+    const encrypted = await encryptJson(key, secrets);
+    const record: VaultRecord = { version: 1, salt, iterations: PBKDF2_ITERATIONS, ...encrypted };
+    localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(record));
+  }
+
+  /** Encrypts the current secrets in the background; writes are queued so they land in order. */
+  private static persist(): void {
+    const key = this.key;
+    const salt = this.salt;
+    const secrets = { ...this.secrets };
+    if (!key || !salt) return;
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.writeRecord(key, salt, secrets))
+      .catch(error => console.error('Failed to save the credential vault:', error));
+  }
+
+  private static activate(key: CryptoKey, salt: string, secrets: Record<string, string>): void {
+    this.key = key;
+    this.salt = salt;
+    this.secrets = secrets;
+    this.startIdleTimer();
+    this.notifyCallbacks();
+  }
+
+  private static recordActivity = (): void => {
+    CredentialVault.lastActivity = Date.now();
+  };
+
+  private static startIdleTimer(): void {
+    this.stopIdleTimer();
+    this.lastActivity = Date.now();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.recordActivity, { passive: true }));
+
+    this.idleTimer = window.setInterval(() => {
+      const { autoLockMinutes } = this.getSettings();
+      if (autoLockMinutes > 0 && Date.now() - this.lastActivity >= autoLockMinutes * 60000) {
+        this.lock();
+      }
+    }, IDLE_CHECK_INTERVAL);
+  }
+
+  private static stopIdleTimer(): void {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.recordActivity));
+    if (this.idleTimer !== null) {
+      window.clearInterval(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /** Picks up credentials another tab wrote, or locks if it changed the passphrase. */
+  private static handleStorage = (event: StorageEvent): void => {
+    if (event.key !== VAULT_STORAGE_KEY) return;
+
+    const vault = CredentialVault;
+    const record = vault.readRecord();
+    if (!record || !vault.key || record.salt !== vault.salt) {
+      vault.lock();
+      vault.notifyCallbacks();
+      return;
+    }
+
+    decryptJson<Record<string, string>>(vault.key, record)
+      .then(secrets => {
+        vault.secrets = secrets;
+        vault.notifyCallbacks();
+      })
+      .catch(() => vault.lock());
+  };
+
+  private static notifyCallbacks(): void {
+    const state = this.getState();
+    this.callbacks.forEach(callback => callback(state));
+  }
+}
+
+export default CredentialVault;
@@ -0,0 +1,67 @@
+/** AES-GCM ciphertext and the IV it was encrypted with, both base64-encoded. */
+export interface EncryptedData {
+  iv: string;
+  data: string;
+}
+
+export const PBKDF2_ITERATIONS = 310000;
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+export const randomSalt = (): string => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+/** Derives a non-extractable AES-GCM key from a passphrase with PBKDF2-SHA-256. */
+export const deriveKey = async (
+  passphrase: string,
+  salt: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedData> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Decrypts and parses data written by `encryptJson`. AES-GCM cannot tell a wrong key
+ * from tampered data, so both end up as the same error.
+ */
+export const decryptJson = async <T>(key: CryptoKey, encrypted: EncryptedData): Promise<T> => {
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      key,
+      fromBase64(encrypted.data)
+    );
+  } catch {
+    throw new Error('Could not decrypt the data. Check the passphrase.');
+  }
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+};
@@ -0,0 +1,61 @@
+const DB_NAME = 'chatwoot_dashboard_app';
+const DB_VERSION = 2;
+
+export const HEALTH_CHECKS_STORE = 'server_health_checks';
+export const STORE_RECORDS_STORE = 'store_records';
+export const STORE_SYNC_STORE = 'store_sync_state';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const healthChecks = db.createObjectStore(HEALTH_CHECKS_STORE, { keyPath: 'id', autoIncrement: true });
+    healthChecks.createIndex('serverId_checkedAt', ['serverId', 'checkedAt']);
+    healthChecks.createIndex('checkedAt', 'checkedAt');
+  }
+  if (oldVersion < 2) {
+    const records = db.createObjectStore(STORE_RECORDS_STORE, { keyPath: ['serverId', 'kind', 'id'] });
+    records.createIndex('serverId_kind', ['serverId', 'kind']);
+    records.createIndex('serverId', 'serverId');
+    db.createObjectStore(STORE_SYNC_STORE, { keyPath: ['serverId', 'kind'] });
+  }
+};
+
+/** Opens (and upgrades) the app's IndexedDB database. The connection is shared. */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Lets a newer version of the app in another tab upgrade the schema.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error(`Failed to open local database: ${request.error?.message ?? 'unknown error'}`));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/** Wraps an IDBRequest in a promise. */
+export const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** Resolves once a transaction has committed. */
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -1,4 +1,6 @@
 import axios, { AxiosError, AxiosResponse } from 'axios';
+import { isRequestCancelled, scheduledAxios } from './requestScheduler';
+import CredentialVault from './credentialVault';
 
 // Interfaces remain the same
 export interface ERPNextClient {
@@ -45,10 +47,47 @@ export interface ERPNextError {
   details?: Record<string, unknown>;
 }
 
+export interface ERPNextCustomerMatch {
+  client: ERPNextClient;
+  matchedBy: Array<'email' | 'phone' | 'contact'>;
+}
+
+export type ERPNextFilter = [string, string, string, string | string[]];
+
 export interface DebugCallback {
   (step: string, details: Record<string, unknown>): void;
 }
 
+export interface ERPNextConfig {
+  url: string;
+  apiKey: string;
+  apiSecret: string;
+}
+
+const STORAGE_KEYS = {
+  url: 'erpnext_url',
+  apiKey: 'erpnext_api_key',
+  apiSecret: 'erpnext_api_secret'
+};
+
+/** Reads the ERPNext connection; the API key and secret come from the credential vault. */
+export const getERPNextConfig = (): ERPNextConfig | null => {
+  const url = localStorage.getItem(STORAGE_KEYS.url);
+  const apiKey = CredentialVault.getItem(STORAGE_KEYS.apiKey);
+  const apiSecret = CredentialVault.getItem(STORAGE_KEYS.apiSecret);
+
+  if (!url || !apiKey || !apiSecret) {
+    return null;
+  }
+  return { url, apiKey, apiSecret };
+};
+
+export const saveERPNextConfig = (config: ERPNextConfig): void => {
+  localStorage.setItem(STORAGE_KEYS.url, config.url);
+  CredentialVault.setItem(STORAGE_KEYS.apiKey, config.apiKey);
+  CredentialVault.setItem(STORAGE_KEYS.apiSecret, config.apiSecret);
+};
+
 const normalizeUrl = (url: string): string => {
   let normalizedUrl = url.trim();
   if (!normalizedUrl.startsWith('http://') && !normalizedUrl.startsWith('https://')) {
@@ -79,7 +118,8 @@ const getAuthToken = async (
   baseUrl: string, 
   apiKey: string, 
   apiSecret: string,
-  debug?: DebugCallback
+  debug?: DebugCallback,
+  signal?: AbortSignal
 ): Promise<string> => {
   try {
     debug?.('Initiating authentication request', {
@@ -90,10 +130,10 @@ const getAuthToken = async (
       }
     });
 
-    const response = await axios.post(`${baseUrl}/api/method/frappe.auth.get_token`, {
+    const response = await scheduledAxios.post(`${baseUrl}/api/method/frappe.auth.get_token`, {
       api_key: apiKey,
       api_secret: apiSecret
-    });
+    }, { signal });
     
     debug?.('Authentication response received', {
       status: response.status,
@@ -107,6 +147,7 @@ const getAuthToken = async (
     
     return response.data.token;
   } catch (error) {
+    if (isRequestCancelled(error)) throw error;
     const formattedError = handleAxiosError(error);
     debug?.('Authentication failed', formattedError);
     throw new Error(`Authentication failed: ${formattedError.message}`);
@@ -140,7 +181,7 @@ export const testERPNextConnection = async (
       }
     });
 
-    const response = await axios.get(`${baseUrl}/api/method/frappe.auth.get_logged_user`, {
+    const response = await scheduledAxios.get(`${baseUrl}/api/method/frappe.auth.get_logged_user`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/json'
@@ -177,29 +218,34 @@ export const fetchERPNextClients = async (
   url: string,
   apiKey: string,
   apiSecret: string,
-  searchQuery: string = ''
+  searchQuery: string = '',
+  orFilters?: ERPNextFilter[],
+  signal?: AbortSignal
 ): Promise<ERPNextClient[]> => {
   try {
     const baseUrl = normalizeUrl(url);
-    const token = await getAuthToken(baseUrl, apiKey, apiSecret);
+    const token = await getAuthToken(baseUrl, apiKey, apiSecret, undefined, signal);
     
     const filters = searchQuery 
       ? JSON.stringify([["Customer", "customer_name", "like", `%${searchQuery}%`]])
       : undefined;
 
-    const response = await axios.get(`${baseUrl}/api/resource/Customer`, {
+    const response = await scheduledAxios.get(`${baseUrl}/api/resource/Customer`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/json'
       },
       params: {
         fields: '["*"]',
-        filters
-      }
+        filters,
+        or_filters: orFilters && orFilters.length > 0 ? JSON.stringify(orFilters) : undefined
+      },
+      signal
     });
 
     return response.data?.data || [];
   } catch (error) {
+    if (isRequestCancelled(error)) throw error;
     const formattedError = handleAxiosError(error);
     throw new Error(`Failed to fetch clients: ${formattedError.message}`);
   }
@@ -209,21 +255,24 @@ export const fetchClientDetails = async (
   url: string,
   apiKey: string,
   apiSecret: string,
-  clientId: string
+  clientId: string,
+  signal?: AbortSignal
 ): Promise<ERPNextClient> => {
   try {
     const baseUrl = normalizeUrl(url);
-    const token = await getAuthToken(baseUrl, apiKey, apiSecret);
+    const token = await getAuthToken(baseUrl, apiKey, apiSecret, undefined, signal);
 
-    const response = await axios.get(`${baseUrl}/api/resource/Customer/${encodeURIComponent(clientId)}`, {
+    const response = await scheduledAxios.get(`${baseUrl}/api/resource/Customer/${encodeURIComponent(clientId)}`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/json'
-      }
+      },
+      signal
     });
 
     return response.data?.data;
   } catch (error) {
+    if (isRequestCancelled(error)) throw error;
     const formattedError = handleAxiosError(error);
     throw new Error(`Failed to fetch client details: ${formattedError.message}`);
   }
@@ -233,15 +282,16 @@ export const fetchClientOrders = async (
   url: string,
   apiKey: string,
   apiSecret: string,
-  clientId: string
+  clientId: string,
+  signal?: AbortSignal
 ): Promise<ERPNextOrder[]> => {
   try {
     const baseUrl = normalizeUrl(url);
-    const token = await getAuthToken(baseUrl, apiKey, apiSecret);
+    const token = await getAuthToken(baseUrl, apiKey, apiSecret, undefined, signal);
 
     const filters = JSON.stringify([["Sales Order", "customer", "=", clientId]]);
     
-    const response = await axios.get(`${baseUrl}/api/resource/Sales Order`, {
+    const response = await scheduledAxios.get(`${baseUrl}/api/resource/Sales Order`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/json'
@@ -249,11 +299,13 @@ export const fetchClientOrders = async (
       params: {
         fields: '["*"]',
         filters
-      }
+      },
+      signal
     });
 
     return response.data?.data || [];
   } catch (error) {
+    if (isRequestCancelled(error)) throw error;
     const formattedError = handleAxiosError(error);
     throw new Error(`Failed to fetch client orders: ${formattedError.message}`);
   }
@@ -263,15 +315,16 @@ export const fetchClientComments = async (
   url: string,
   apiKey: string,
   apiSecret: string,
-  clientId: string
+  clientId: string,
+  signal?: AbortSignal
 ): Promise<ERPNextComment[]> => {
   try {
     const baseUrl = normalizeUrl(url);
-    const token = await getAuthToken(baseUrl, apiKey, apiSecret);
+    const token = await getAuthToken(baseUrl, apiKey, apiSecret, undefined, signal);
 
     const filters = JSON.stringify([["Comment", "reference_name", "=", clientId]]);
     
-    const response = await axios.get(`${baseUrl}/api/resource/Comment`, {
+    const response = await scheduledAxios.get(`${baseUrl}/api/resource/Comment`, {
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/json'
@@ -279,12 +332,115 @@ export const fetchClientComments = async (
       params: {
         fields: '["*"]',
         filters
-      }
+      },
+      signal
     });
 
     return response.data?.data || [];
   } catch (error) {
+    if (isRequestCancelled(error)) throw error;
     const formattedError = handleAxiosError(error);
     throw new Error(`Failed to fetch client comments: ${formattedError.message}`);
   }
+};
+
+const fetchLinkedCustomerNames = async (
+  baseUrl: string,
+  token: string,
+  orFilters: ERPNextFilter[]
+): Promise<string[]> => {
+  const headers = {
+    'Authorization': `Bearer ${token}`,
+    'Accept': 'application/json'
+  };
+
+  const contactsResponse = await scheduledAxios.get(`${baseUrl}/api/resource/Contact`, {
+    headers,
+    params: {
+      fields: '["name"]',
+      or_filters: JSON.stringify(orFilters)
+    }
+  });
+
+  const contactNames: string[] = (contactsResponse.data?.data || []).map((c: { name: string }) => c.name);
+
+  // Links to customers live in the Contact's child table, which list queries do not return.
+  const contacts = await Promise.all(
+    contactNames.map(name =>
+      scheduledAxios.get(`${baseUrl}/api/resource/Contact/${encodeURIComponent(name)}`, { headers })
+    )
+  );
+
+  const customerNames = contacts.flatMap(response =>
+    ((response.data?.data?.links || []) as Array<{ link_doctype: string; link_name: string }>)
+      .filter(link => link.link_doctype === 'Customer')
+      .map(link => link.link_name)
+  );
+
+  return Array.from(new Set(customerNames));
+};
+
+export const findERPNextCustomerMatches = async (
+  url: string,
+  apiKey: string,
+  apiSecret: string,
+  criteria: { email?: string | null; phone?: string | null }
+): Promise<ERPNextCustomerMatch[]> => {
+  const email = (criteria.email || '').trim().toLowerCase();
+  // Compare on the trailing digits so local and international formats both match.
+  const phoneDigits = (criteria.phone || '').replace(/\D/g, '').slice(-9);
+
+  if (!email && phoneDigits.length < 7) {
+    return [];
+  }
+
+  try {
+    const baseUrl = normalizeUrl(url);
+    const token = await getAuthToken(baseUrl, apiKey, apiSecret);
+
+    const customerFilters: ERPNextFilter[] = [];
+    const contactFilters: ERPNextFilter[] = [];
+    if (email) {
+      customerFilters.push(["Customer", "email_id", "=", email]);
+      contactFilters.push(["Contact", "email_id", "=", email]);
+    }
+    if (phoneDigits.length >= 7) {
+      customerFilters.push(["Customer", "mobile_no", "like", `%${phoneDigits}%`]);
+      contactFilters.push(["Contact", "phone", "like", `%${phoneDigits}%`]);
+      contactFilters.push(["Contact", "mobile_no", "like", `%${phoneDigits}%`]);
+    }
+
+    const [directMatches, linkedNames] = await Promise.all([
+      fetchERPNextClients(url, apiKey, apiSecret, '', customerFilters),
+      fetchLinkedCustomerNames(baseUrl, token, contactFilters)
+    ]);
+
+    const matches = new Map<string, ERPNextCustomerMatch>();
+    directMatches.forEach(client => {
+      const record = client as ERPNextClient & { email_id?: string };
+      const matchedBy: ERPNextCustomerMatch['matchedBy'] = [];
+      if (email && (record.email_id || record.email || '').toLowerCase() === email) matchedBy.push('email');
+      if (phoneDigits.length >= 7 && (record.mobile_no || '').replace(/\D/g, '').includes(phoneDigits)) {
+        matchedBy.push('phone');
+      }
+      matches.set(client.name, { client, matchedBy });
+    });
+
+    const missingNames = linkedNames.filter(name => !matches.has(name));
+    const linkedClients = await Promise.all(
+      missingNames.map(name => fetchClientDetails(url, apiKey, apiSecret, name))
+    );
+    linkedClients.forEach(client => {
+      if (client) matches.set(client.name, { client, matchedBy: ['contact'] });
+    });
+    linkedNames.forEach(name => {
+      const match = matches.get(name);
+      if (match && !match.matchedBy.includes('contact')) match.matchedBy.push('contact');
+    });
+
+    return Array.from(matches.values());
+  } catch (error) {
+    const formattedError = handleAxiosError(error);
+    throw new Error(`Failed to match ERPNext customers: ${formattedError.message}`);
+  }
 };
\ No newline at end of file
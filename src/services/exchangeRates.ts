@@ -0,0 +1,80 @@
+export interface ExchangeRateSettings {
+  /** Currency that totals across stores are expressed in. */
+  baseCurrency: string;
+  /** How many units of the base currency one unit of each currency is worth. */
+  rates: Record<string, number>;
+  updatedAt?: string;
+}
+
+export interface MoneyAmount {
+  amount: number;
+  currency?: string | null;
+}
+
+export interface MoneyTotal {
+  total: number;
+  currency: string;
+  /** Currencies without an exchange rate; their amounts are left out of the total. */
+  missingRates: string[];
+}
+
+const STORAGE_KEY = 'exchange_rates';
+
+const DEFAULT_SETTINGS: ExchangeRateSettings = {
+  baseCurrency: 'USD',
+  rates: {}
+};
+
+export const getExchangeRates = (): ExchangeRateSettings => {
+  const settingsJson = localStorage.getItem(STORAGE_KEY);
+  return settingsJson ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) } : DEFAULT_SETTINGS;
+};
+
+/** Stores the settings stamped with the time of the edit, and returns them. */
+export const saveExchangeRates = (settings: ExchangeRateSettings): ExchangeRateSettings => {
+  const saved = { ...settings, updatedAt: new Date().toISOString() };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+};
+
+/** Converts an amount into the base currency, or returns null when no rate is known. */
+export const convertToBase = (
+  amount: number,
+  currency: string,
+  settings: ExchangeRateSettings = getExchangeRates()
+): number | null => {
+  if (currency === settings.baseCurrency) return amount;
+  const rate = settings.rates[currency];
+  return rate ? amount * rate : null;
+};
+
+/**
+ * Adds up amounts from several stores. Amounts in a single currency are summed as they
+ * are; mixed currencies are converted into the base currency first.
+ */
+export const sumInBaseCurrency = (
+  amounts: MoneyAmount[],
+  settings: ExchangeRateSettings = getExchangeRates()
+): MoneyTotal => {
+  const currencies = Array.from(new Set(amounts.map(a => a.currency).filter((c): c is string => Boolean(c))));
+
+  if (currencies.length <= 1) {
+    return {
+      total: amounts.reduce((sum, a) => sum + a.amount, 0),
+      currency: currencies[0] ?? settings.baseCurrency,
+      missingRates: []
+    };
+  }
+
+  const missingRates = new Set<string>();
+  const total = amounts.reduce((sum, a) => {
+    const converted = convertToBase(a.amount, a.currency ?? settings.baseCurrency, settings);
+    if (converted === null) {
+      missingRates.add(a.currency as string);
+      return sum;
+    }
+    return sum + converted;
+  }, 0);
+
+  return { total, currency: settings.baseCurrency, missingRates: Array.from(missingRates) };
+};
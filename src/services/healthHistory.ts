@@ -0,0 +1,204 @@
+import { HEALTH_CHECKS_STORE, openDatabase, promisifyRequest, transactionDone } from './db';
+
+export type ServerHealthStatus = 'online' | 'offline' | 'error';
+
+export interface HealthCheckRecord {
+  id?: number;
+  serverId: string;
+  /** Epoch milliseconds. */
+  checkedAt: number;
+  status: ServerHealthStatus;
+  responseTime?: number;
+  errorMessage?: string;
+}
+
+export interface Outage {
+  start: number;
+  /** Null while the outage is still ongoing. */
+  end: number | null;
+  status: ServerHealthStatus;
+  errorMessages: string[];
+  checks: number;
+}
+
+export interface LatencyBucket {
+  start: number;
+  averageResponseTime: number | null;
+  failed: number;
+  total: number;
+}
+
+export const HEALTH_RANGES = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+export type HealthRange = keyof typeof HEALTH_RANGES;
+
+const RETENTION = HEALTH_RANGES['7d'];
+const PRUNE_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+let lastPrunedAt = 0;
+
+/** Deletes every record older than the retention window. */
+export const pruneHealthHistory = async (now: number = Date.now()): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(HEALTH_CHECKS_STORE, 'readwrite');
+  const index = transaction.objectStore(HEALTH_CHECKS_STORE).index('checkedAt');
+  const request = index.openCursor(IDBKeyRange.upperBound(now - RETENTION));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+
+  await transactionDone(transaction);
+  lastPrunedAt = now;
+};
+
+export const recordHealthChecks = async (records: HealthCheckRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction(HEALTH_CHECKS_STORE, 'readwrite');
+  const store = transaction.objectStore(HEALTH_CHECKS_STORE);
+  records.forEach(record => store.add(record));
+  await transactionDone(transaction);
+
+  // Keeping the series bounded is cheap enough to do lazily from the writer.
+  if (Date.now() - lastPrunedAt > PRUNE_INTERVAL) {
+    await pruneHealthHistory();
+  }
+};
+
+export const getHealthHistory = async (
+  serverId: string,
+  range: HealthRange,
+  now: number = Date.now()
+): Promise<HealthCheckRecord[]> => {
+  const db = await openDatabase();
+  const index = db
+    .transaction(HEALTH_CHECKS_STORE, 'readonly')
+    .objectStore(HEALTH_CHECKS_STORE)
+    .index('serverId_checkedAt');
+
+  return promisifyRequest(index.getAll(
+    IDBKeyRange.bound([serverId, now - HEALTH_RANGES[range]], [serverId, now])
+  )) as Promise<HealthCheckRecord[]>;
+};
+
+export const deleteHealthHistory = async (serverId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(HEALTH_CHECKS_STORE, 'readwrite');
+  const index = transaction.objectStore(HEALTH_CHECKS_STORE).index('serverId_checkedAt');
+  const request = index.openCursor(IDBKeyRange.bound([serverId, 0], [serverId, Infinity]));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+
+  await transactionDone(transaction);
+};
+
+/**
+ * Percentage of time the server was online, or null without any checks. Checks are not
+ * evenly spaced (failing servers back off and hidden tabs pause), so each check's status
+ * counts for the time until the next check instead of every check counting the same.
+ * A check covers at most twice the delay it scheduled the next one for, which `getDelay`
+ * gives for a number of failures in a row; longer gaps, when nothing was monitoring,
+ * count neither way.
+ */
+export const calculateUptime = (
+  records: HealthCheckRecord[],
+  getDelay: (failures: number) => number,
+  now: number = Date.now()
+): number | null => {
+  if (records.length === 0) return null;
+
+  let online = 0;
+  let total = 0;
+  let failures = 0;
+  records.forEach((record, index) => {
+    failures = record.status === 'online' ? 0 : failures + 1;
+    const until = index + 1 < records.length ? records[index + 1].checkedAt : now;
+    const span = Math.min(Math.max(until - record.checkedAt, 0), 2 * getDelay(failures));
+    total += span;
+    if (record.status === 'online') online += span;
+  });
+
+  if (total === 0) {
+    return records[records.length - 1].status === 'online' ? 100 : 0;
+  }
+  return (online / total) * 100;
+};
+
+/** Groups consecutive failed checks into outages, newest first. */
+export const findOutages = (records: HealthCheckRecord[]): Outage[] => {
+  const outages: Outage[] = [];
+  let current: Outage | null = null;
+
+  records.forEach(record => {
+    if (record.status === 'online') {
+      if (current) {
+        current.end = record.checkedAt;
+        current = null;
+      }
+      return;
+    }
+
+    if (!current) {
+      current = { start: record.checkedAt, end: null, status: record.status, errorMessages: [], checks: 0 };
+      outages.push(current);
+    }
+    current.checks++;
+    if (record.errorMessage && !current.errorMessages.includes(record.errorMessage)) {
+      current.errorMessages.push(record.errorMessage);
+    }
+  });
+
+  return outages.reverse();
+};
+
+/** Averages response times into fixed-width buckets so a week of checks fits a sparkline. */
+export const bucketLatency = (
+  records: HealthCheckRecord[],
+  range: HealthRange,
+  bucketCount: number,
+  now: number = Date.now()
+): LatencyBucket[] => {
+  const rangeStart = now - HEALTH_RANGES[range];
+  const bucketSize = HEALTH_RANGES[range] / bucketCount;
+  const buckets = Array.from({ length: bucketCount }, (_, index) => ({
+    start: rangeStart + index * bucketSize,
+    sum: 0,
+    samples: 0,
+    failed: 0,
+    total: 0
+  }));
+
+  records.forEach(record => {
+    const index = Math.min(Math.floor((record.checkedAt - rangeStart) / bucketSize), bucketCount - 1);
+    if (index < 0) return;
+    const bucket = buckets[index];
+    bucket.total++;
+    if (record.status !== 'online') bucket.failed++;
+    if (record.status === 'online' && record.responseTime !== undefined) {
+      bucket.sum += record.responseTime;
+      bucket.samples++;
+    }
+  });
+
+  return buckets.map(({ start, sum, samples, failed, total }) => ({
+    start,
+    averageResponseTime: samples > 0 ? sum / samples : null,
+    failed,
+    total
+  }));
+};
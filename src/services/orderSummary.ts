@@ -0,0 +1,163 @@
+import { formatMoney, formatStoreDate } from './storeFormat';
+
+interface SummaryAddress {
+  first_name?: string;
+  last_name?: string;
+  company?: string;
+  address_1?: string;
+  address_2?: string;
+  city?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+}
+
+export interface OrderSummarySource {
+  id: number;
+  number: string;
+  status: string;
+  date_created: string;
+  total: string;
+  currency?: string;
+  currency_symbol?: string;
+  shipping_total?: string;
+  total_tax?: string;
+  discount_total?: string;
+  payment_method_title?: string;
+  shipping?: SummaryAddress;
+  line_items?: Array<{
+    id: number;
+    name: string;
+    quantity: number;
+    total: string;
+  }>;
+  shipping_lines?: Array<{
+    method_title: string;
+  }>;
+  meta_data?: Array<{
+    key: string;
+    value: unknown;
+  }>;
+  store?: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface OrderTracking {
+  provider: string;
+  number: string;
+  link?: string;
+}
+
+const formatAmount = (order: OrderSummarySource, amount: string | undefined): string =>
+  formatMoney(amount, order.store, order.currency);
+
+/** One entry of `_wc_shipment_tracking_items`, as stored by the Shipment Tracking extension. */
+interface ShipmentTrackingItem {
+  tracking_number: string | number;
+  tracking_provider?: string;
+  custom_tracking_provider?: string;
+  custom_tracking_link?: string;
+}
+
+const isOptionalString = (value: unknown): boolean => value === undefined || typeof value === 'string';
+
+const isShipmentTrackingItem = (item: unknown): item is ShipmentTrackingItem => {
+  if (typeof item !== 'object' || item === null) return false;
+  const candidate = item as Record<string, unknown>;
+  return (typeof candidate.tracking_number === 'string' || typeof candidate.tracking_number === 'number')
+    && candidate.tracking_number !== ''
+    && isOptionalString(candidate.tracking_provider)
+    && isOptionalString(candidate.custom_tracking_provider)
+    && isOptionalString(candidate.custom_tracking_link);
+};
+
+/**
+ * Reads tracking numbers stored by the WooCommerce Shipment Tracking extension
+ * (`_wc_shipment_tracking_items`) or a plain `_tracking_number` meta field.
+ */
+export const getOrderTracking = (order: OrderSummarySource): OrderTracking[] => {
+  const meta = order.meta_data || [];
+
+  const shipmentItems = meta.find(m => m.key === '_wc_shipment_tracking_items')?.value;
+  if (Array.isArray(shipmentItems)) {
+    return shipmentItems
+      .filter(isShipmentTrackingItem)
+      .map(item => ({
+        provider: item.custom_tracking_provider || item.tracking_provider || 'Carrier',
+        number: String(item.tracking_number),
+        link: item.custom_tracking_link || undefined
+      }));
+  }
+
+  const trackingNumber = meta.find(m => m.key === '_tracking_number')?.value;
+  if (typeof trackingNumber === 'string' && trackingNumber) {
+    const provider = meta.find(m => m.key === '_tracking_provider')?.value;
+    return [{ provider: typeof provider === 'string' && provider ? provider : 'Carrier', number: trackingNumber }];
+  }
+
+  return [];
+};
+
+/** Renders an order as Markdown suitable for a Chatwoot message or private note. */
+export const formatOrderSummary = (order: OrderSummarySource): string => {
+  const lines: string[] = [];
+
+  lines.push(`**Order #${order.number}** — ${order.status}`);
+  lines.push(`Placed ${formatStoreDate(order.date_created, order.store)}${order.store ? ` at ${order.store.name}` : ''}`);
+
+  if (order.line_items && order.line_items.length > 0) {
+    lines.push('');
+    lines.push('**Items**');
+    order.line_items.forEach(item => {
+      lines.push(`- ${item.name} × ${item.quantity} — ${formatAmount(order, item.total)}`);
+    });
+  }
+
+  lines.push('');
+  if (order.shipping_total && parseFloat(order.shipping_total) > 0) {
+    lines.push(`Shipping: ${formatAmount(order, order.shipping_total)}`);
+  }
+  if (order.discount_total && parseFloat(order.discount_total) > 0) {
+    lines.push(`Discount: -${formatAmount(order, order.discount_total)}`);
+  }
+  if (order.total_tax && parseFloat(order.total_tax) > 0) {
+    lines.push(`Tax: ${formatAmount(order, order.total_tax)}`);
+  }
+  lines.push(`**Total: ${formatAmount(order, order.total)}**`);
+  if (order.payment_method_title) {
+    lines.push(`Paid via ${order.payment_method_title}`);
+  }
+
+  const shipping = order.shipping;
+  const address = shipping
+    ? [
+        [shipping.first_name, shipping.last_name].filter(Boolean).join(' '),
+        shipping.company,
+        shipping.address_1,
+        shipping.address_2,
+        [shipping.postcode, shipping.city].filter(Boolean).join(' '),
+        shipping.state,
+        shipping.country
+      ].filter(Boolean)
+    : [];
+  if (address.length > 0) {
+    lines.push('');
+    lines.push('**Shipping address**');
+    lines.push(address.join(', '));
+    const method = order.shipping_lines?.[0]?.method_title;
+    if (method) lines.push(`Method: ${method}`);
+  }
+
+  const tracking = getOrderTracking(order);
+  if (tracking.length > 0) {
+    lines.push('');
+    lines.push('**Tracking**');
+    tracking.forEach(entry => {
+      lines.push(`- ${entry.provider}: ${entry.link ? `[${entry.number}](${entry.link})` : entry.number}`);
+    });
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,70 @@
+import { WooCommerceServer } from './woocommerce';
+
+interface StoredPageFilters {
+  filters?: object;
+  selectedServers?: string[];
+}
+
+interface StoredFilterState {
+  /** When set, every page uses `sharedServers` instead of its own store selection. */
+  shareStoreSelection: boolean;
+  sharedServers?: string[];
+  pages: Record<string, StoredPageFilters>;
+}
+
+const STORAGE_KEY = 'page_filters';
+
+const readState = (): StoredFilterState => {
+  const stateJson = localStorage.getItem(STORAGE_KEY);
+  return { shareStoreSelection: false, pages: {}, ...(stateJson ? JSON.parse(stateJson) : {}) };
+};
+
+const writeState = (state: StoredFilterState): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
+
+/** The search term, sorting and similar filters a page was left with. */
+export const getPageFilters = <T extends object>(page: string): Partial<T> =>
+  (readState().pages[page]?.filters ?? {}) as Partial<T>;
+
+export const savePageFilters = (page: string, filters: object): void => {
+  const state = readState();
+  state.pages[page] = { ...state.pages[page], filters };
+  writeState(state);
+};
+
+/**
+ * The stores a page should show: its remembered selection (or the shared one) minus
+ * stores deleted since, falling back to every online store on the first visit.
+ */
+export const getStoreSelection = (page: string, servers: WooCommerceServer[]): string[] => {
+  const state = readState();
+  const saved = state.shareStoreSelection ? state.sharedServers : state.pages[page]?.selectedServers;
+
+  if (!saved) {
+    return servers.filter(s => s.status === 'online').map(s => s.id);
+  }
+  return saved.filter(id => servers.some(s => s.id === id));
+};
+
+export const saveStoreSelection = (page: string, serverIds: string[]): void => {
+  const state = readState();
+  if (state.shareStoreSelection) {
+    state.sharedServers = serverIds;
+  } else {
+    state.pages[page] = { ...state.pages[page], selectedServers: serverIds };
+  }
+  writeState(state);
+};
+
+export const isStoreSelectionShared = (): boolean => readState().shareStoreSelection;
+
+/** Turning sharing on makes the given selection the one every page starts from. */
+export const setStoreSelectionShared = (shared: boolean, serverIds: string[]): void => {
+  const state = readState();
+  state.shareStoreSelection = shared;
+  if (shared) {
+    state.sharedServers = serverIds;
+  }
+  writeState(state);
+};
@@ -0,0 +1,243 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface HostQueueState {
+  active: number;
+  queued: number;
+  /** Epoch ms until which the host is rate limited, or null. */
+  pausedUntil: number | null;
+}
+
+export interface RequestQueueState {
+  active: number;
+  queued: number;
+  hosts: Record<string, HostQueueState>;
+}
+
+export interface ScheduleOptions {
+  /** Aborting drops the request from the queue, or cancels it when it is already running. */
+  signal?: AbortSignal;
+  /**
+   * Whether a 503 may be retried. A 429 is always retried because the server refused the
+   * request before handling it; a 503 can come from a request that was partly processed.
+   */
+  idempotent?: boolean;
+}
+
+interface HostQueue {
+  active: number;
+  pausedUntil: number | null;
+  resumeTimer: number | null;
+  /** Starts functions of the requests waiting for a slot, in order. */
+  waiting: Array<() => void>;
+}
+
+interface RequestQueueCallback {
+  (state: RequestQueueState): void;
+}
+
+/** A request dropped because the page that made it went away. Callers should ignore it. */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('The request was cancelled');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const isRequestCancelled = (error: unknown): boolean =>
+  error instanceof RequestCancelledError || axios.isCancel(error);
+
+const RATE_LIMIT_STATUSES = [429, 503];
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url, window.location.href).host;
+  } catch {
+    return url;
+  }
+};
+
+/** `Retry-After` is either a number of seconds or an HTTP date. */
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Queues HTTP requests per host so small WordPress and ERPNext servers are not flooded.
+ * At most `MAX_CONCURRENT_PER_HOST` requests run against a host at once. A 429 or 503
+ * pauses the whole host for the `Retry-After` period (or an exponential backoff) before
+ * the request is tried again.
+ */
+class RequestScheduler {
+  static MAX_CONCURRENT_PER_HOST = 4;
+  static MAX_RATE_LIMIT_RETRIES = 3;
+  static BASE_RETRY_DELAY = 2000; // 2 seconds
+  /** Longer waits are not worth it for an interactive page; the request fails instead. */
+  static MAX_RETRY_DELAY = 60000; // 1 minute
+
+  private static hosts = new Map<string, HostQueue>();
+  private static callbacks: RequestQueueCallback[] = [];
+
+  /** Runs `task` once a slot for the URL's host is free, retrying it when rate limited. */
+  static async run<T>(url: string, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const host = hostOf(url);
+    const { signal, idempotent = true } = options;
+
+    for (let attempt = 1; ; attempt++) {
+      // Retries go to the front of the queue so they are not starved by newer requests.
+      await this.acquire(host, signal, attempt > 1);
+      try {
+        return await task();
+      } catch (error) {
+        if (isRequestCancelled(error)) {
+          throw new RequestCancelledError();
+        }
+        const delay = this.retryDelay(error, attempt, idempotent);
+        if (delay === null) {
+          throw error;
+        }
+        this.pauseHost(host, delay);
+      } finally {
+        this.release(host);
+      }
+    }
+  }
+
+  static getState(): RequestQueueState {
+    const hosts: Record<string, HostQueueState> = {};
+    let active = 0;
+    let queued = 0;
+
+    this.hosts.forEach((queue, host) => {
+      hosts[host] = { active: queue.active, queued: queue.waiting.length, pausedUntil: queue.pausedUntil };
+      active += queue.active;
+      queued += queue.waiting.length;
+    });
+    return { active, queued, hosts };
+  }
+
+  /** Calls back whenever a request is queued, started or finished. Returns an unsubscribe function. */
+  static subscribe(callback: RequestQueueCallback): () => void {
+    this.callbacks.push(callback);
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  private static getQueue(host: string): HostQueue {
+    let queue = this.hosts.get(host);
+    if (!queue) {
+      queue = { active: 0, pausedUntil: null, resumeTimer: null, waiting: [] };
+      this.hosts.set(host, queue);
+    }
+    return queue;
+  }
+
+  private static acquire(host: string, signal: AbortSignal | undefined, priority: boolean): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledError());
+    }
+
+    const queue = this.getQueue(host);
+    if (queue.active < this.MAX_CONCURRENT_PER_HOST && queue.pausedUntil === null && queue.waiting.length === 0) {
+      queue.active++;
+      this.notifyCallbacks();
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        queue.waiting = queue.waiting.filter(waiter => waiter !== start);
+        this.notifyCallbacks();
+        reject(new RequestCancelledError());
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (priority) {
+        queue.waiting.unshift(start);
+      } else {
+        queue.waiting.push(start);
+      }
+      this.notifyCallbacks();
+    });
+  }
+
+  private static release(host: string): void {
+    const queue = this.getQueue(host);
+    queue.active--;
+    this.drain(host);
+  }
+
+  private static drain(host: string): void {
+    const queue = this.getQueue(host);
+    while (queue.pausedUntil === null && queue.active < this.MAX_CONCURRENT_PER_HOST && queue.waiting.length > 0) {
+      const start = queue.waiting.shift();
+      queue.active++;
+      start?.();
+    }
+
+    if (queue.active === 0 && queue.waiting.length === 0 && queue.pausedUntil === null) {
+      this.hosts.delete(host);
+    }
+    this.notifyCallbacks();
+  }
+
+  private static pauseHost(host: string, delay: number): void {
+    const queue = this.getQueue(host);
+    const pausedUntil = Date.now() + delay;
+    if (queue.pausedUntil !== null && queue.pausedUntil >= pausedUntil) return;
+
+    if (queue.resumeTimer !== null) {
+      window.clearTimeout(queue.resumeTimer);
+    }
+    queue.pausedUntil = pausedUntil;
+    queue.resumeTimer = window.setTimeout(() => {
+      queue.pausedUntil = null;
+      queue.resumeTimer = null;
+      this.drain(host);
+    }, delay);
+  }
+
+  /** How long to wait before retrying, or null when the error is not worth retrying. */
+  private static retryDelay(error: unknown, attempt: number, idempotent: boolean): number | null {
+    if (!axios.isAxiosError(error) || !error.response || attempt > this.MAX_RATE_LIMIT_RETRIES) {
+      return null;
+    }
+
+    const { status, headers } = error.response;
+    if (!RATE_LIMIT_STATUSES.includes(status) || (status === 503 && !idempotent)) {
+      return null;
+    }
+
+    const delay = parseRetryAfter(headers['retry-after']) ?? this.BASE_RETRY_DELAY * 2 ** (attempt - 1);
+    return delay > this.MAX_RETRY_DELAY ? null : delay;
+  }
+
+  private static notifyCallbacks(): void {
+    const state = this.getState();
+    this.callbacks.forEach(callback => callback(state));
+  }
+}
+
+const defaultAdapter = axios.getAdapter(axios.defaults.adapter);
+
+/**
+ * An axios instance whose requests go through the scheduler. Pass `signal` in the request
+ * config to cancel them.
+ */
+export const scheduledAxios = axios.create({
+  adapter: (config: InternalAxiosRequestConfig): Promise<AxiosResponse> =>
+    RequestScheduler.run(config.url ?? '', () => defaultAdapter(config), {
+      signal: config.signal as AbortSignal | undefined,
+      idempotent: ['get', 'head', 'options'].includes((config.method ?? 'get').toLowerCase())
+    })
+});
+
+export default RequestScheduler;
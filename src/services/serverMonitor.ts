@@ -0,0 +1,248 @@
+import WooCommerceService, { WooCommerceServer } from './woocommerce';
+
+export interface MonitoringSettings {
+  enabled: boolean;
+  /** Seconds between checks for servers without their own interval. */
+  defaultInterval: number;
+  /** Upper bound in seconds for the backoff applied to failing servers. */
+  maxBackoff: number;
+  pauseWhenHidden: boolean;
+}
+
+export type MonitorRole = 'leader' | 'follower' | 'stopped';
+
+export interface MonitorState {
+  role: MonitorRole;
+  paused: boolean;
+  /** Per server: when the next check is due (epoch ms) and how many checks failed in a row. */
+  schedule: Record<string, { dueAt: number; failures: number }>;
+}
+
+interface MonitorStateCallback {
+  (state: MonitorState): void;
+}
+
+export const MONITOR_INTERVAL_OPTIONS = [30, 60, 300, 900, 3600];
+
+export const formatInterval = (seconds: number): string =>
+  seconds < 60 ? `${seconds}s` : seconds < 3600 ? `${seconds / 60} min` : `${seconds / 3600} h`;
+
+const SETTINGS_STORAGE_KEY = 'woocommerce_monitoring';
+const LEADER_LOCK_NAME = 'woocommerce-server-monitor';
+
+const DEFAULT_SETTINGS: MonitoringSettings = {
+  enabled: true,
+  defaultInterval: 60,
+  maxBackoff: 900,
+  pauseWhenHidden: true
+};
+
+/**
+ * Schedules status checks for every configured store. Each server has its own timer,
+ * failing servers back off exponentially, and only the tab holding the leader lock polls;
+ * the others pick up its results through the `storage` event. A tab that is hidden while
+ * checks pause gives the lock up, so a visible tab takes over.
+ */
+class ServerMonitor {
+  private static running = false;
+  private static role: MonitorRole = 'stopped';
+  private static timers = new Map<string, number>();
+  private static schedule: MonitorState['schedule'] = {};
+  private static releaseLeadership: (() => void) | null = null;
+  private static leadershipRequest: AbortController | null = null;
+  private static unsubscribeServers: (() => void) | null = null;
+  private static callbacks: MonitorStateCallback[] = [];
+
+  static getSettings(): MonitoringSettings {
+    const settingsJson = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return settingsJson ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsJson) } : DEFAULT_SETTINGS;
+  }
+
+  static saveSettings(settings: MonitoringSettings): void {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    if (this.role === 'leader') {
+      this.rescheduleAll();
+    }
+    this.notifyCallbacks();
+  }
+
+  static getState(): MonitorState {
+    return { role: this.role, paused: this.isPaused(), schedule: { ...this.schedule } };
+  }
+
+  static subscribe(callback: MonitorStateCallback): () => void {
+    this.callbacks.push(callback);
+    return () => {
+      this.callbacks = this.callbacks.filter(cb => cb !== callback);
+    };
+  }
+
+  static start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.role = 'follower';
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    this.requestLeadership();
+    this.notifyCallbacks();
+  }
+
+  static stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.resignLeadership();
+    this.schedule = {};
+    this.role = 'stopped';
+    this.notifyCallbacks();
+  }
+
+  private static requestLeadership(): void {
+    if (!navigator.locks) {
+      // Without the Web Locks API every tab polls, as before.
+      this.becomeLeader();
+      return;
+    }
+
+    const request = new AbortController();
+    this.leadershipRequest = request;
+
+    navigator.locks.request(LEADER_LOCK_NAME, { signal: request.signal }, () => {
+      this.leadershipRequest = null;
+      // Hidden again before the lock came through: hand it straight on to a visible tab.
+      if (this.isPaused()) return;
+      this.becomeLeader();
+      // Hold the lock until stop() is called or the tab goes away.
+      return new Promise<void>(resolve => {
+        this.releaseLeadership = resolve;
+      });
+    }).catch(error => {
+      if (!request.signal.aborted) {
+        console.error('Server monitor leader election failed:', error);
+      }
+    });
+  }
+
+  private static becomeLeader(): void {
+    this.role = 'leader';
+    this.unsubscribeServers = WooCommerceService.subscribe(() => this.reconcileTimers());
+    // A tab taking over again catches up on what fell due meanwhile; a new leader checks everything.
+    this.rescheduleAll(Object.keys(this.schedule).length === 0);
+    this.notifyCallbacks();
+  }
+
+  /** Stops polling and releases the leader lock, or drops out of the queue for it. */
+  private static resignLeadership(): void {
+    this.leadershipRequest?.abort();
+    this.leadershipRequest = null;
+    this.unsubscribeServers?.();
+    this.unsubscribeServers = null;
+    this.timers.forEach(timer => window.clearTimeout(timer));
+    this.timers.clear();
+    this.releaseLeadership?.();
+    this.releaseLeadership = null;
+    this.role = 'follower';
+  }
+
+  private static isPaused(): boolean {
+    return this.getSettings().pauseWhenHidden && document.hidden;
+  }
+
+  private static handleVisibilityChange = (): void => {
+    if (!navigator.locks) {
+      // Every tab polls on its own, so a hidden one only stops its timers.
+      if (ServerMonitor.isPaused()) {
+        ServerMonitor.timers.forEach(timer => window.clearTimeout(timer));
+        ServerMonitor.timers.clear();
+      } else {
+        ServerMonitor.rescheduleAll();
+      }
+    } else if (ServerMonitor.isPaused()) {
+      // Holding the lock while hidden would keep visible tabs from polling.
+      ServerMonitor.resignLeadership();
+    } else if (ServerMonitor.role !== 'leader' && !ServerMonitor.leadershipRequest) {
+      ServerMonitor.requestLeadership();
+    }
+    ServerMonitor.notifyCallbacks();
+  };
+
+  /** Milliseconds from a check of the server to the next one, after `failures` failed checks in a row. */
+  static getCheckDelay(server: WooCommerceServer, failures: number): number {
+    return this.getDelay(server, failures, this.getSettings());
+  }
+
+  private static getInterval(server: WooCommerceServer, settings: MonitoringSettings): number {
+    return (server.monitorInterval || settings.defaultInterval) * 1000;
+  }
+
+  private static getDelay(server: WooCommerceServer, failures: number, settings: MonitoringSettings): number {
+    const interval = this.getInterval(server, settings);
+    if (failures === 0) return interval;
+    return Math.min(interval * 2 ** failures, Math.max(settings.maxBackoff * 1000, interval));
+  }
+
+  private static rescheduleAll(immediately: boolean = false): void {
+    this.timers.forEach(timer => window.clearTimeout(timer));
+    this.timers.clear();
+
+    const now = Date.now();
+    WooCommerceService.getServers().forEach(server => {
+      const entry = this.schedule[server.id];
+      const dueAt = immediately || !entry ? now : entry.dueAt;
+      this.scheduleCheck(server.id, Math.max(dueAt - now, 0), entry?.failures ?? 0);
+    });
+  }
+
+  /** Starts timers for newly added servers and drops those of deleted ones. */
+  private static reconcileTimers(): void {
+    const serverIds = WooCommerceService.getServers().map(s => s.id);
+
+    Object.keys(this.schedule)
+      .filter(serverId => !serverIds.includes(serverId))
+      .forEach(serverId => {
+        window.clearTimeout(this.timers.get(serverId));
+        this.timers.delete(serverId);
+        delete this.schedule[serverId];
+      });
+
+    serverIds
+      .filter(serverId => !this.schedule[serverId])
+      .forEach(serverId => this.scheduleCheck(serverId, 0, 0));
+  }
+
+  private static scheduleCheck(serverId: string, delay: number, failures: number): void {
+    window.clearTimeout(this.timers.get(serverId));
+    this.schedule[serverId] = { dueAt: Date.now() + delay, failures };
+
+    if (!this.settingsAllowPolling()) {
+      this.timers.delete(serverId);
+      return;
+    }
+
+    this.timers.set(serverId, window.setTimeout(() => this.runCheck(serverId), delay));
+  }
+
+  private static settingsAllowPolling(): boolean {
+    return this.role === 'leader' && this.getSettings().enabled && !this.isPaused();
+  }
+
+  private static async runCheck(serverId: string): Promise<void> {
+    this.timers.delete(serverId);
+    const server = WooCommerceService.getServers().find(s => s.id === serverId);
+    if (!server || this.role !== 'leader') return;
+
+    const { status } = await WooCommerceService.checkAndUpdateServer(server);
+    if (this.role !== 'leader' || !this.schedule[serverId]) return;
+
+    const settings = this.getSettings();
+    const failures = status === 'online' ? 0 : this.schedule[serverId].failures + 1;
+    this.scheduleCheck(serverId, this.getDelay(server, failures, settings), failures);
+    this.notifyCallbacks();
+  }
+
+  private static notifyCallbacks(): void {
+    const state = this.getState();
+    this.callbacks.forEach(callback => callback(state));
+  }
+}
+
+export default ServerMonitor;
@@ -0,0 +1,92 @@
+import { ApiKeyAccess, CredentialCheckResult } from './woocommerce';
+import WooCommerceClient, { WooCommerceApiError, WooCommerceConnection } from './wooCommerceClient';
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error occurred';
+
+const isAuthError = (error: unknown): boolean =>
+  error instanceof WooCommerceApiError && (error.status === 401 || error.status === 403);
+
+const attempt = async (request: () => Promise<unknown>): Promise<{ ok: true } | { ok: false; error: unknown }> => {
+  try {
+    await request();
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, error };
+  }
+};
+
+const toAccess = (canRead: boolean, canWrite: boolean): ApiKeyAccess =>
+  canRead && canWrite ? 'read_write' : canRead ? 'read' : canWrite ? 'write' : 'none';
+
+/**
+ * Works out what a store's API keys can do: whether the Authorization header reaches
+ * WordPress, whether the key may read and write, and which versions the store runs.
+ * Nothing is modified on the store; write access is tested with an empty batch request.
+ */
+export const verifyServerCredentials = async (server: WooCommerceConnection): Promise<CredentialCheckResult> => {
+  const errors: string[] = [];
+  const https = server.url.trim().toLowerCase().startsWith('https://');
+
+  if (!https) {
+    errors.push('The store URL is not HTTPS. WooCommerce only accepts API keys over plain HTTP with OAuth 1.0a signatures, which this app does not send.');
+  }
+
+  const asServer = (useQueryStringAuth: boolean) =>
+    new WooCommerceClient({ ...server, useQueryStringAuth });
+
+  // Find an authentication method that works before testing permissions with it.
+  let client = asServer(false);
+  let basicAuth: CredentialCheckResult['basicAuth'] = 'ok';
+  let read = await attempt(() => client.probe());
+
+  if (!read.ok && isAuthError(read.error)) {
+    const queryClient = asServer(true);
+    const queryRead = await attempt(() => queryClient.probe());
+    if (queryRead.ok) {
+      basicAuth = 'stripped';
+      client = queryClient;
+      read = queryRead;
+      if (!server.useQueryStringAuth) {
+        errors.push('The server drops the Authorization header. Enable "Send keys as query parameters" for this store.');
+      }
+    } else {
+      basicAuth = 'failed';
+    }
+  } else if (!read.ok) {
+    basicAuth = 'failed';
+  }
+
+  if (!read.ok) {
+    errors.push(`Reading orders failed: ${describeError(read.error)}`);
+  }
+
+  const write = await attempt(() => client.checkWriteAccess());
+  if (!write.ok && !isAuthError(write.error)) {
+    errors.push(`Could not test write access: ${describeError(write.error)}`);
+  }
+
+  let wooCommerceVersion: string | undefined;
+  let wordPressVersion: string | undefined;
+  try {
+    const { data } = await client.getSystemStatus();
+    wooCommerceVersion = data.environment?.version;
+    wordPressVersion = data.environment?.wp_version;
+  } catch (error) {
+    if (read.ok) {
+      errors.push(`Could not read the system status: ${describeError(error)}`);
+    }
+  }
+
+  const writeKnown = write.ok || isAuthError(write.error);
+
+  return {
+    checkedAt: new Date().toISOString(),
+    https,
+    basicAuth,
+    access: read.ok || writeKnown ? toAccess(read.ok, write.ok) : 'unknown',
+    wooCommerceVersion,
+    wordPressVersion,
+    errors
+  };
+};
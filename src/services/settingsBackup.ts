@@ -0,0 +1,232 @@
+import WooCommerceService, { WooCommerceServer } from './woocommerce';
+import CredentialVault from './credentialVault';
+import { decryptJson, deriveKey, encryptJson, PBKDF2_ITERATIONS, randomSalt } from './crypto';
+
+export type BackupSectionId = 'woocommerce' | 'erpnext' | 'chatwoot' | 'legacy';
+
+export interface BackupSection {
+  id: BackupSectionId;
+  label: string;
+  keys: string[];
+}
+
+export interface SettingsBackupPayload {
+  exportedAt: string;
+  /** Raw localStorage values, keyed by storage key. */
+  settings: Record<string, string>;
+}
+
+/** The file written to disk. Only `data` is encrypted; the rest is needed to decrypt it. */
+interface EncryptedBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  createdAt: string;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string;
+}
+
+export type ImportChange = 'new' | 'changed' | 'unchanged';
+
+export interface ImportPreviewItem {
+  label: string;
+  change: ImportChange;
+}
+
+export interface ImportPreviewSection {
+  section: BackupSection;
+  items: ImportPreviewItem[];
+}
+
+export const BACKUP_SECTIONS: BackupSection[] = [
+  {
+    id: 'woocommerce',
+    label: 'WooCommerce stores',
+    keys: ['woocommerce_servers', 'woocommerce_default_server', 'woocommerce_page_servers', 'woocommerce_monitoring', 'exchange_rates']
+  },
+  {
+    id: 'erpnext',
+    label: 'ERPNext',
+    keys: ['erpnext_url', 'erpnext_api_key', 'erpnext_api_secret']
+  },
+  {
+    id: 'chatwoot',
+    label: 'Chatwoot',
+    keys: ['chatwoot_url', 'chatwoot_account_id', 'chatwoot_api_token', 'chatwoot_contact_sync']
+  },
+  {
+    id: 'legacy',
+    label: 'Legacy WooCommerce connection (dashboard totals)',
+    keys: ['woocommerce_url', 'woocommerce_consumer_key', 'woocommerce_consumer_secret']
+  }
+];
+
+const KEY_LABELS: Record<string, string> = {
+  woocommerce_default_server: 'Default store',
+  woocommerce_page_servers: 'Per-page store choices',
+  woocommerce_monitoring: 'Status monitoring settings',
+  exchange_rates: 'Exchange rates',
+  erpnext_url: 'ERPNext URL',
+  erpnext_api_key: 'ERPNext API key',
+  erpnext_api_secret: 'ERPNext API secret',
+  chatwoot_url: 'Chatwoot URL',
+  chatwoot_account_id: 'Chatwoot account ID',
+  chatwoot_api_token: 'Chatwoot API token',
+  chatwoot_contact_sync: 'Contact sync rules',
+  woocommerce_url: 'WooCommerce URL',
+  woocommerce_consumer_key: 'WooCommerce consumer key',
+  woocommerce_consumer_secret: 'WooCommerce consumer secret'
+};
+
+const BACKUP_FORMAT = 'chatwoot-dashboard-settings';
+const SERVERS_KEY = 'woocommerce_servers';
+const DEFAULT_SERVER_KEY = 'woocommerce_default_server';
+const PAGE_SERVERS_KEY = 'woocommerce_page_servers';
+const COMPARED_SERVER_FIELDS: Array<keyof WooCommerceServer> = [
+  'name', 'url', 'consumerKey', 'consumerSecret', 'isActive', 'monitorInterval', 'useQueryStringAuth', 'tags', 'color'
+];
+
+/** Status fields describe this browser's last check and are not worth carrying over. */
+const stripServerStatus = (server: WooCommerceServer): WooCommerceServer => {
+  const settings = { ...server };
+  delete settings.status;
+  delete settings.lastChecked;
+  delete settings.errorMessage;
+  delete settings.responseTime;
+  delete settings.credentialCheck;
+  return settings;
+};
+
+const parseJson = <T>(value: string | undefined, fallback: T): T => {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/** Reads every integration setting this browser has into a backup payload. */
+export const collectSettings = (): SettingsBackupPayload => {
+  const settings: Record<string, string> = {};
+
+  BACKUP_SECTIONS.flatMap(section => section.keys).forEach(key => {
+    const value = CredentialVault.getItem(key);
+    if (value !== null) {
+      settings[key] = value;
+    }
+  });
+
+  // The stored entries lack their API keys, which are kept apart in the credential vault.
+  if (settings[SERVERS_KEY]) {
+    settings[SERVERS_KEY] = JSON.stringify(WooCommerceService.getServers().map(stripServerStatus));
+  }
+
+  return { exportedAt: new Date().toISOString(), settings };
+};
+
+/** Encrypts the settings with a key derived from the passphrase and returns the file contents. */
+export const exportSettings = async (passphrase: string): Promise<string> => {
+  if (!passphrase) {
+    throw new Error('A passphrase is required to encrypt the backup');
+  }
+
+  const salt = randomSalt();
+  const key = await deriveKey(passphrase, salt);
+  const encrypted = await encryptJson(key, collectSettings());
+
+  const file: EncryptedBackupFile = {
+    format: BACKUP_FORMAT,
+    version: 1,
+    createdAt: new Date().toISOString(),
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt },
+    cipher: { name: 'AES-GCM', iv: encrypted.iv },
+    data: encrypted.data
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const decryptSettings = async (fileContents: string, passphrase: string): Promise<SettingsBackupPayload> => {
+  const file = parseJson<Partial<EncryptedBackupFile> | null>(fileContents, null);
+  if (!file || file.format !== BACKUP_FORMAT || !file.kdf || !file.cipher || !file.data) {
+    throw new Error('This file is not a settings backup');
+  }
+  if (file.version !== 1) {
+    throw new Error(`Unsupported backup version: ${file.version}`);
+  }
+
+  const key = await deriveKey(passphrase, file.kdf.salt, file.kdf.iterations);
+  const payload = await decryptJson<SettingsBackupPayload | null>(key, { iv: file.cipher.iv, data: file.data });
+  if (!payload || typeof payload.settings !== 'object') {
+    throw new Error('The backup contents are damaged');
+  }
+  return payload;
+};
+
+const compare = (current: string | null, incoming: string): ImportChange =>
+  current === null ? 'new' : current === incoming ? 'unchanged' : 'changed';
+
+/** Lists what importing each section would change, without touching any settings. */
+export const previewImport = (payload: SettingsBackupPayload): ImportPreviewSection[] =>
+  BACKUP_SECTIONS
+    .map(section => {
+      const items: ImportPreviewItem[] = [];
+
+      section.keys
+        .filter(key => payload.settings[key] !== undefined)
+        .forEach(key => {
+          if (key === SERVERS_KEY) {
+            const existing = WooCommerceService.getServers();
+            parseJson<WooCommerceServer[]>(payload.settings[key], []).forEach(server => {
+              const match = WooCommerceService.findMatchingServer(server, existing);
+              const changed = match && COMPARED_SERVER_FIELDS.some(field =>
+                JSON.stringify(match[field]) !== JSON.stringify(server[field]));
+              items.push({
+                label: `${server.name} (${server.url})`,
+                change: !match ? 'new' : changed ? 'changed' : 'unchanged'
+              });
+            });
+            return;
+          }
+          items.push({
+            label: KEY_LABELS[key] || key,
+            change: compare(CredentialVault.getItem(key), payload.settings[key])
+          });
+        });
+
+      return { section, items };
+    })
+    .filter(preview => preview.items.length > 0);
+
+/**
+ * Applies the chosen sections. Stores are merged into the existing list rather than
+ * replacing it; every other setting in a chosen section is overwritten.
+ */
+export const applyImport = (payload: SettingsBackupPayload, sectionIds: BackupSectionId[]): void => {
+  BACKUP_SECTIONS
+    .filter(section => sectionIds.includes(section.id))
+    .forEach(section => {
+      let idMap: Record<string, string> = {};
+
+      if (section.keys.includes(SERVERS_KEY) && payload.settings[SERVERS_KEY]) {
+        idMap = WooCommerceService.importServers(parseJson<WooCommerceServer[]>(payload.settings[SERVERS_KEY], []));
+      }
+
+      section.keys
+        .filter(key => key !== SERVERS_KEY && payload.settings[key] !== undefined)
+        .forEach(key => {
+          const value = payload.settings[key];
+
+          // Stores matched by URL keep their local id, so references to them are remapped.
+          if (key === DEFAULT_SERVER_KEY) {
+            WooCommerceService.setActiveServer(idMap[value] || value);
+          } else if (key === PAGE_SERVERS_KEY) {
+            Object.entries(parseJson<Record<string, string>>(value, {})).forEach(([page, serverId]) => {
+              WooCommerceService.setPageServer(page, idMap[serverId] || serverId);
+            });
+          } else {
+            CredentialVault.setItem(key, value);
+          }
+        });
+    });
+};
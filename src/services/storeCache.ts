@@ -0,0 +1,140 @@
+import { openDatabase, promisifyRequest, STORE_RECORDS_STORE, STORE_SYNC_STORE, transactionDone } from './db';
+
+export type CachedKind = 'orders' | 'products' | 'customers' | 'coupons';
+
+const CACHED_KINDS: CachedKind[] = ['orders', 'products', 'customers', 'coupons'];
+
+export interface StoreSyncState {
+  serverId: string;
+  kind: CachedKind;
+  /** Epoch milliseconds of the last successful fetch from the store. */
+  syncedAt: number;
+  /** Newest `date_modified_gmt` seen by the delta sync; the next sync asks for changes after it. */
+  highWaterMark?: string;
+  /**
+   * Epoch milliseconds of the last full sweep, which drops items deleted or trashed in the
+   * store. Set once the initial download has completed, so the cache holds every item.
+   */
+  fullSweepAt?: number;
+}
+
+interface CachedRecord<T> {
+  serverId: string;
+  kind: CachedKind;
+  id: number;
+  data: T;
+}
+
+/** Items from several stores carry the store they came from, so ids are only unique per store. */
+type StoreItem = { id: number; store?: { id: string } };
+
+/**
+ * Every cached item of the given kind for the stores, as last fetched. Used to render a page
+ * instantly, and to keep showing a store's data while it is unreachable.
+ */
+export const getCachedItems = async <T>(serverIds: string[], kind: CachedKind): Promise<T[]> => {
+  const db = await openDatabase();
+  const index = db
+    .transaction(STORE_RECORDS_STORE, 'readonly')
+    .objectStore(STORE_RECORDS_STORE)
+    .index('serverId_kind');
+
+  const perStore = await Promise.all(serverIds.map(serverId =>
+    promisifyRequest(index.getAll(IDBKeyRange.only([serverId, kind]))) as Promise<CachedRecord<T>[]>
+  ));
+  return perStore.flat().map(record => record.data);
+};
+
+/**
+ * Stores freshly fetched items, replacing older copies, and marks the store as synced now.
+ * The delta sync passes its progress in `sync`; other fields of the stored state are kept.
+ */
+export const saveCachedItems = async <T extends { id: number }>(
+  serverId: string,
+  kind: CachedKind,
+  items: T[],
+  sync: Partial<Pick<StoreSyncState, 'highWaterMark' | 'fullSweepAt'>> = {}
+): Promise<StoreSyncState> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_RECORDS_STORE, STORE_SYNC_STORE], 'readwrite');
+  const records = transaction.objectStore(STORE_RECORDS_STORE);
+  items.forEach(item => {
+    const record: CachedRecord<T> = { serverId, kind, id: item.id, data: item };
+    records.put(record);
+  });
+
+  const syncStates = transaction.objectStore(STORE_SYNC_STORE);
+  let state: StoreSyncState = { serverId, kind, syncedAt: Date.now(), ...sync };
+  const previous = syncStates.get([serverId, kind]);
+  previous.onsuccess = () => {
+    state = { ...previous.result, ...state };
+    syncStates.put(state);
+  };
+
+  await transactionDone(transaction);
+  return state;
+};
+
+/** Deletes the store's cached items of a kind whose ids are not in `keepIds`. Returns how many went. */
+export const removeCachedItems = async (serverId: string, kind: CachedKind, keepIds: Set<number>): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(STORE_RECORDS_STORE, 'readwrite');
+  const request = transaction.objectStore(STORE_RECORDS_STORE).index('serverId_kind').openCursor(IDBKeyRange.only([serverId, kind]));
+  let removed = 0;
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    if (!keepIds.has((cursor.value as CachedRecord<unknown>).id)) {
+      cursor.delete();
+      removed++;
+    }
+    cursor.continue();
+  };
+
+  await transactionDone(transaction);
+  return removed;
+};
+
+export const getSyncStates = async (
+  serverIds: string[],
+  kind: CachedKind
+): Promise<Record<string, StoreSyncState>> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORE_SYNC_STORE, 'readonly').objectStore(STORE_SYNC_STORE);
+
+  const states = await Promise.all(serverIds.map(serverId =>
+    promisifyRequest(store.get([serverId, kind])) as Promise<StoreSyncState | undefined>
+  ));
+  return Object.fromEntries(
+    states.filter((state): state is StoreSyncState => Boolean(state)).map(state => [state.serverId, state])
+  );
+};
+
+/** Drops everything cached for a store, e.g. when it is deleted. */
+export const deleteStoreCache = async (serverId: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([STORE_RECORDS_STORE, STORE_SYNC_STORE], 'readwrite');
+  const request = transaction.objectStore(STORE_RECORDS_STORE).index('serverId').openCursor(IDBKeyRange.only(serverId));
+
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  const syncStates = transaction.objectStore(STORE_SYNC_STORE);
+  CACHED_KINDS.forEach(kind => syncStates.delete([serverId, kind]));
+
+  await transactionDone(transaction);
+};
+
+/** Merges fetched items into a list: fetched copies replace cached ones, new items are appended. */
+export const mergeStoreItems = <T extends StoreItem>(current: T[], fetched: T[]): T[] => {
+  const key = (item: T) => `${item.store?.id}-${item.id}`;
+  const fetchedByKey = new Map(fetched.map(item => [key(item), item]));
+  const merged = current.map(item => fetchedByKey.get(key(item)) ?? item);
+  const currentKeys = new Set(current.map(key));
+  return [...merged, ...fetched.filter(item => !currentKeys.has(key(item)))];
+};
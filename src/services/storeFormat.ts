@@ -0,0 +1,112 @@
+import WooCommerceService, { StoreLocale, WooCommerceServer } from './woocommerce';
+
+/** A store, or a record tagged with one such as an order's `store`. */
+type StoreRef = { id: string; storeLocale?: StoreLocale } | null | undefined;
+
+/**
+ * Locales by store id. Lists format every price and date through here, so the server list
+ * is read once and then kept current by its change notifications, other tabs' included.
+ */
+let storeLocales: Map<string, StoreLocale | undefined> | null = null;
+
+const indexLocales = (servers: WooCommerceServer[]): Map<string, StoreLocale | undefined> =>
+  new Map(servers.map(server => [server.id, server.storeLocale]));
+
+const resolveLocale = (store: StoreRef): StoreLocale | undefined => {
+  if (!store) return undefined;
+  if (store.storeLocale) return store.storeLocale;
+  if (!storeLocales) {
+    storeLocales = indexLocales(WooCommerceService.getServers());
+    WooCommerceService.subscribe(servers => {
+      storeLocales = indexLocales(servers);
+    });
+  }
+  return storeLocales.get(store.id);
+};
+
+const symbolCache: Record<string, string> = {};
+
+/** The narrow symbol for a currency code (`€` for EUR), or the code itself when unknown. */
+export const getCurrencySymbol = (currency: string): string => {
+  if (!(currency in symbolCache)) {
+    try {
+      const parts = new Intl.NumberFormat('en', { style: 'currency', currency, currencyDisplay: 'narrowSymbol' })
+        .formatToParts(0);
+      symbolCache[currency] = parts.find(part => part.type === 'currency')?.value ?? currency;
+    } catch {
+      symbolCache[currency] = currency;
+    }
+  }
+  return symbolCache[currency];
+};
+
+/**
+ * Formats an amount the way the store shows it: its currency symbol, symbol position,
+ * separators and number of decimals. `currency` overrides the store currency, for orders
+ * placed in another currency. Stores whose settings have not been read yet fall back to
+ * the browser's conventions.
+ */
+export const formatMoney = (
+  amount: string | number | null | undefined,
+  store?: StoreRef,
+  currency?: string | null
+): string => {
+  const value = typeof amount === 'number' ? amount : parseFloat(amount || '0') || 0;
+  const locale = resolveLocale(store);
+  const code = currency || locale?.currency;
+
+  if (!locale) {
+    if (!code) return value.toFixed(2);
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency: code }).format(value);
+    } catch {
+      return `${value.toFixed(2)} ${code}`;
+    }
+  }
+
+  const [whole, fraction] = Math.abs(value).toFixed(locale.decimals).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, locale.thousandSeparator);
+  const number = fraction ? `${grouped}${locale.decimalSeparator}${fraction}` : grouped;
+  const symbol = getCurrencySymbol(code || locale.currency);
+
+  const formatted = {
+    left: `${symbol}${number}`,
+    left_space: `${symbol} ${number}`,
+    right: `${number}${symbol}`,
+    right_space: `${number} ${symbol}`
+  }[locale.currencyPosition] ?? `${symbol}${number}`;
+
+  return value < 0 ? `-${formatted}` : formatted;
+};
+
+const formatOffset = (minutes: number): string => {
+  const sign = minutes < 0 ? '-' : '+';
+  const hours = Math.floor(Math.abs(minutes) / 60);
+  const rest = Math.abs(minutes) % 60;
+  return `UTC${sign}${String(hours).padStart(2, '0')}:${String(rest).padStart(2, '0')}`;
+};
+
+/**
+ * Formats a WooCommerce timestamp such as `date_created`. These are in the store's local
+ * time without a timezone, so they are shown as-is whatever the browser's timezone, and
+ * times are labelled with the store's UTC offset when it is known.
+ */
+export const formatStoreDate = (
+  value: string | null | undefined,
+  store?: StoreRef,
+  withTime: boolean = false
+): string => {
+  if (!value) return '';
+
+  // Reading the wall-clock time as UTC and printing it in UTC keeps it unchanged.
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00Z` : `${value}Z`);
+  if (Number.isNaN(date.getTime())) return value;
+
+  if (!withTime) {
+    return date.toLocaleDateString(undefined, { timeZone: 'UTC' });
+  }
+
+  const utcOffset = resolveLocale(store)?.utcOffset;
+  const formatted = date.toLocaleString(undefined, { timeZone: 'UTC' });
+  return utcOffset === undefined ? formatted : `${formatted} (${formatOffset(utcOffset)})`;
+};
@@ -0,0 +1,132 @@
+import WooCommerceClient, { WooCommercePage, WooCommerceQueryParams } from './wooCommerceClient';
+import { WooCommerceServer } from './woocommerce';
+import { CachedKind, getSyncStates, removeCachedItems, saveCachedItems, StoreSyncState } from './storeCache';
+
+/**
+ * Kinds kept complete by the delta sync. Coupon lists are small and are fetched whole.
+ * Customers are left out because `/customers` has no `modified_after` filter, so every
+ * sync would download the whole list; they are only cached as pages are viewed.
+ */
+export type SyncedKind = Exclude<CachedKind, 'coupons' | 'customers'>;
+
+export interface StoreSyncResult {
+  state: StoreSyncState;
+  /** Items created or modified since the previous sync. */
+  changed: number;
+  /** Cached items dropped by the full sweep because the store no longer lists them. */
+  removed: number;
+}
+
+type SyncedItem = { id: number; date_modified_gmt?: string | null };
+
+const PAGE_SIZE = 100;
+const FULL_SWEEP_INTERVAL = 24 * 60 * 60 * 1000; // 1 day
+/** Changes are asked for from a little before the mark, so edits saved in the same second are not missed. */
+const MODIFIED_OVERLAP = 60 * 1000; // 1 minute
+
+const running = new Map<string, Promise<StoreSyncResult>>();
+
+const listPage = (
+  client: WooCommerceClient,
+  kind: SyncedKind,
+  params: WooCommerceQueryParams
+): Promise<WooCommercePage<SyncedItem>> => {
+  switch (kind) {
+    case 'orders':
+      return client.listOrders<SyncedItem>(params);
+    case 'products':
+      return client.listProducts<SyncedItem>(params);
+  }
+};
+
+/** Reads every page of a listing, lowest id first so pages do not shift while items are added. */
+const forEachPage = async (
+  client: WooCommerceClient,
+  kind: SyncedKind,
+  params: WooCommerceQueryParams,
+  onPage: (items: SyncedItem[]) => Promise<void>
+): Promise<void> => {
+  for (let page = 1; ; page++) {
+    const result = await listPage(client, kind, { ...params, per_page: PAGE_SIZE, page, orderby: 'id', order: 'asc' });
+    await onPage(result.items);
+    if (page >= result.totalPages) return;
+  }
+};
+
+/** Ids of everything the store currently lists; trashed and deleted items are not among them. */
+const listLiveIds = async (client: WooCommerceClient, kind: SyncedKind): Promise<Set<number>> => {
+  const ids = new Set<number>();
+  await forEachPage(client, kind, { _fields: 'id' }, async items => {
+    items.forEach(item => ids.add(item.id));
+  });
+  return ids;
+};
+
+/** WooCommerce GMT timestamps have no timezone designator. */
+const shiftTimestamp = (timestamp: string, offset: number): string =>
+  new Date(Date.parse(`${timestamp}Z`) + offset).toISOString().slice(0, 19);
+
+const runSync = async (server: WooCommerceServer, kind: SyncedKind): Promise<StoreSyncResult> => {
+  const client = new WooCommerceClient(server);
+  const previous = (await getSyncStates([server.id], kind))[server.id];
+  const startedAt = Date.now();
+  const sweepDue = previous?.fullSweepAt === undefined || startedAt - previous.fullSweepAt > FULL_SWEEP_INTERVAL;
+  const store = { id: server.id, name: server.name, url: server.url };
+
+  const since = previous?.highWaterMark ? shiftTimestamp(previous.highWaterMark, -MODIFIED_OVERLAP) : undefined;
+  let highWaterMark = previous?.highWaterMark;
+  let changed = 0;
+  const seenIds = new Set<number>();
+
+  await forEachPage(client, kind, since ? { modified_after: since, dates_are_gmt: true } : {}, async items => {
+    items.forEach(item => seenIds.add(item.id));
+    // Stores older than WooCommerce 5.8 ignore `modified_after` and list everything; only real changes are kept.
+    const changedItems = items.filter(item => !since || !item.date_modified_gmt || item.date_modified_gmt > since);
+    changedItems.forEach(item => {
+      if (item.date_modified_gmt && (!highWaterMark || item.date_modified_gmt > highWaterMark)) {
+        highWaterMark = item.date_modified_gmt;
+      }
+    });
+
+    if (changedItems.length > 0) {
+      await saveCachedItems(server.id, kind, changedItems.map(item => ({ ...item, store })));
+      changed += changedItems.length;
+    }
+  });
+
+  // Deletions and trashing do not show up as changes, so they are only noticed by comparing ids.
+  let removed = 0;
+  if (sweepDue) {
+    removed = await removeCachedItems(server.id, kind, since ? await listLiveIds(client, kind) : seenIds);
+  }
+
+  const state = await saveCachedItems(server.id, kind, [], {
+    ...(highWaterMark ? { highWaterMark } : {}),
+    ...(sweepDue ? { fullSweepAt: startedAt } : {})
+  });
+  return { state, changed, removed };
+};
+
+/** Whether the store's cache of the kind is complete, so a refresh only needs to sync changes. */
+export const isStoreSynced = async (serverId: string, kind: SyncedKind): Promise<boolean> => {
+  const states = await getSyncStates([serverId], kind);
+  return states[serverId]?.fullSweepAt !== undefined;
+};
+
+/**
+ * Brings the cached items of a kind up to date with the store. The first sync downloads
+ * everything; later ones only ask for items modified after the stored high-water mark,
+ * and once a day a full sweep drops items that were deleted or trashed in the store.
+ *
+ * Syncs are not tied to a page, since an interrupted first download would otherwise start
+ * over on every visit. Concurrent calls for the same store and kind share one sync.
+ */
+export const syncStore = (server: WooCommerceServer, kind: SyncedKind): Promise<StoreSyncResult> => {
+  const key = `${server.id}:${kind}`;
+  let sync = running.get(key);
+  if (!sync) {
+    sync = runSync(server, kind).finally(() => running.delete(key));
+    running.set(key, sync);
+  }
+  return sync;
+};
@@ -0,0 +1,34 @@
+import { StoreColor, WooCommerceServer } from './woocommerce';
+
+/** Tailwind classes per colour, spelled out in full so the JIT compiler keeps them. */
+export const STORE_COLORS: Record<StoreColor, { badge: string; swatch: string }> = {
+  blue: { badge: 'bg-blue-100 text-blue-800', swatch: 'bg-blue-500' },
+  green: { badge: 'bg-green-100 text-green-800', swatch: 'bg-green-500' },
+  purple: { badge: 'bg-purple-100 text-purple-800', swatch: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-100 text-pink-800', swatch: 'bg-pink-500' },
+  orange: { badge: 'bg-orange-100 text-orange-800', swatch: 'bg-orange-500' },
+  teal: { badge: 'bg-teal-100 text-teal-800', swatch: 'bg-teal-500' },
+  indigo: { badge: 'bg-indigo-100 text-indigo-800', swatch: 'bg-indigo-500' },
+  red: { badge: 'bg-red-100 text-red-800', swatch: 'bg-red-500' }
+};
+
+const COLOR_NAMES = Object.keys(STORE_COLORS) as StoreColor[];
+
+/** The store's chosen colour, or a stable one picked from its id. */
+export const getStoreColor = (server: Pick<WooCommerceServer, 'id' | 'color'>): StoreColor => {
+  if (server.color) return server.color;
+  let hash = 0;
+  for (const char of server.id) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return COLOR_NAMES[Math.abs(hash) % COLOR_NAMES.length];
+};
+
+/** Every tag used by the given stores, sorted alphabetically. */
+export const getStoreTags = (servers: WooCommerceServer[]): string[] =>
+  Array.from(new Set(servers.flatMap(server => server.tags ?? [])))
+    .sort((a, b) => a.localeCompare(b));
+
+/** Splits comma-separated input into trimmed, de-duplicated tags. */
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim()).filter(Boolean)));
@@ -0,0 +1,389 @@
+import axios, { AxiosResponse, Method } from 'axios';
+import { WooCommerceServer } from './woocommerce';
+import { isRequestCancelled, scheduledAxios } from './requestScheduler';
+
+export interface WooCommerceAddress {
+  first_name: string;
+  last_name: string;
+  company?: string;
+  email?: string;
+  phone?: string;
+  address_1?: string;
+  address_2?: string;
+  city?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+}
+
+export interface WooCommerceCustomer {
+  id: number;
+  email: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  date_created: string;
+  is_paying_customer: boolean;
+  avatar_url?: string;
+  billing: WooCommerceAddress & { email: string; phone: string };
+  shipping: WooCommerceAddress;
+}
+
+export interface WooCommerceOrder {
+  id: number;
+  number: string;
+  status: string;
+  /** Store local time, without a timezone designator. */
+  date_created: string;
+  date_created_gmt?: string;
+  total: string;
+  currency?: string;
+  customer_id: number;
+  customer_note?: string;
+  billing: WooCommerceAddress & { email: string; phone?: string };
+  shipping: WooCommerceAddress;
+  line_items: Array<{
+    id: number;
+    name: string;
+    quantity: number;
+    price: string;
+    total: string;
+  }>;
+  shipping_total?: string;
+  total_tax?: string;
+  store?: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface WooCommerceOrderNote {
+  id: number;
+  author: string;
+  date_created: string;
+  note: string;
+  customer_note: boolean;
+}
+
+export interface WooCommerceOrderNoteInput {
+  note: string;
+  /** Customer notes are shown to the customer and emailed to them. */
+  customer_note?: boolean;
+}
+
+/** A registered order status, including custom ones, as listed by the order totals report. */
+export interface WooCommerceOrderStatus {
+  slug: string;
+  name: string;
+  total: number;
+}
+
+export interface WooCommerceProduct {
+  id: number;
+  name: string;
+  type: string;
+  permalink: string;
+  sku: string;
+  price: string;
+  regular_price: string;
+  sale_price: string;
+  status: string;
+  stock_status: string;
+  stock_quantity: number | null;
+  description: string;
+  short_description: string;
+  categories: Array<{ id: number; name: string }>;
+  images: Array<{ id: number; src: string; alt: string }>;
+  attributes: Array<{ id: number; name: string; options: string[] }>;
+  variations: number[];
+}
+
+export interface WooCommerceProductVariation {
+  id: number;
+  sku: string;
+  price: string;
+  regular_price: string;
+  sale_price: string;
+  stock_status: string;
+  stock_quantity: number | null;
+  attributes: Array<{ id: number; name: string; option: string }>;
+}
+
+export interface WooCommerceCoupon {
+  id: number;
+  code: string;
+  amount: string;
+  discount_type: string;
+  description: string;
+  date_expires?: string | null;
+  usage_count: number;
+  usage_limit?: number | null;
+  individual_use: boolean;
+}
+
+export type WooCommerceCouponInput = Partial<Omit<WooCommerceCoupon, 'id' | 'usage_count'>> & { code: string };
+
+export interface WooCommerceSalesReport {
+  total_sales: string;
+  net_sales: string;
+  average_sales: string;
+  total_orders: number;
+  total_items: number;
+  total_customers: number;
+}
+
+export interface WooCommerceSystemStatus {
+  environment: {
+    home_url: string;
+    site_url: string;
+    version: string;
+    wp_version: string;
+  };
+  security?: {
+    secure_connection: boolean;
+  };
+}
+
+/** One option of a settings group, e.g. `woocommerce_currency` in `general`. */
+export interface WooCommerceSetting {
+  id: string;
+  label: string;
+  type: string;
+  value: string;
+}
+
+/** The parts of a server the client needs, so unsaved form values can be tested too. */
+export type WooCommerceConnection = Pick<WooCommerceServer, 'url' | 'consumerKey' | 'consumerSecret' | 'useQueryStringAuth'>;
+
+export type WooCommerceQueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface WooCommercePage<T> {
+  items: T[];
+  page: number;
+  /** Total number of matching records, from the `X-WP-Total` header. */
+  total: number;
+  /** Total number of pages, from the `X-WP-TotalPages` header. */
+  totalPages: number;
+}
+
+/** A failed WooCommerce request, normalised from the axios error and the REST error body. */
+export class WooCommerceApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly code?: string,
+    public readonly isNetworkError: boolean = false,
+    public readonly attempts: number = 1
+  ) {
+    super(message);
+    this.name = 'WooCommerceApiError';
+  }
+}
+
+// 429 and 503 are retried by the request scheduler, which honours `Retry-After`.
+const RETRYABLE_STATUSES = [502, 504];
+
+const isTimeoutError = (error: unknown): boolean =>
+  error instanceof Error && (error.message.includes('timeout') || error.message.includes('ECONNABORTED'));
+
+const toApiError = (error: unknown, attempts: number): WooCommerceApiError => {
+  const suffix = attempts > 1 ? ` (after ${attempts} attempts)` : '';
+
+  if (axios.isAxiosError(error)) {
+    const body = error.response?.data as { code?: string; message?: string } | undefined;
+    const isNetworkError = !error.response;
+    return new WooCommerceApiError(
+      `${body?.message || error.message}${suffix}`,
+      error.response?.status,
+      body?.code,
+      isNetworkError,
+      attempts
+    );
+  }
+
+  return new WooCommerceApiError(
+    `${error instanceof Error ? error.message : 'Unknown error occurred'}${suffix}`,
+    undefined,
+    undefined,
+    false,
+    attempts
+  );
+};
+
+const parseHeaderInt = (value: unknown, fallback: number): number => {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+/**
+ * Typed client for the WooCommerce REST API (wc/v3) of a single store. Requests go through
+ * the shared request scheduler. Reads are retried on timeouts and gateway errors; writes
+ * are never retried so they cannot be applied twice. Aborting `signal` cancels every
+ * request the client has queued or running.
+ */
+class WooCommerceClient {
+  static DEFAULT_TIMEOUT = 10000; // 10 seconds
+  static MAX_RETRIES = 2;
+
+  constructor(private readonly server: WooCommerceConnection, private readonly signal?: AbortSignal) {}
+
+  private get baseUrl(): string {
+    return `${this.server.url.replace(/\/+$/, '')}/wp-json/wc/v3`;
+  }
+
+  private async request<T>(
+    method: Method,
+    path: string,
+    options: { params?: WooCommerceQueryParams; data?: unknown } = {},
+    attempt: number = 1
+  ): Promise<AxiosResponse<T>> {
+    try {
+      const credentials = { consumer_key: this.server.consumerKey, consumer_secret: this.server.consumerSecret };
+      return await scheduledAxios.request<T>({
+        method,
+        url: `${this.baseUrl}${path}`,
+        // Some hosts strip the Authorization header, so keys can be sent as query parameters instead.
+        auth: this.server.useQueryStringAuth ? undefined : {
+          username: this.server.consumerKey,
+          password: this.server.consumerSecret
+        },
+        params: this.server.useQueryStringAuth ? { ...options.params, ...credentials } : options.params,
+        data: options.data,
+        timeout: WooCommerceClient.DEFAULT_TIMEOUT,
+        signal: this.signal
+      });
+    } catch (error) {
+      if (isRequestCancelled(error)) {
+        throw error;
+      }
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const retryable = isTimeoutError(error) || (status !== undefined && RETRYABLE_STATUSES.includes(status));
+
+      if (method.toUpperCase() === 'GET' && retryable && attempt <= WooCommerceClient.MAX_RETRIES) {
+        return this.request<T>(method, path, options, attempt + 1);
+      }
+      throw toApiError(error, attempt);
+    }
+  }
+
+  private async get<T>(path: string, params?: WooCommerceQueryParams): Promise<T> {
+    const response = await this.request<T>('GET', path, { params });
+    return response.data;
+  }
+
+  private async list<T>(path: string, params: WooCommerceQueryParams = {}): Promise<WooCommercePage<T>> {
+    const response = await this.request<T[]>('GET', path, { params });
+    return {
+      items: response.data,
+      page: typeof params.page === 'number' ? params.page : 1,
+      total: parseHeaderInt(response.headers['x-wp-total'], response.data.length),
+      totalPages: parseHeaderInt(response.headers['x-wp-totalpages'], 1)
+    };
+  }
+
+  /** Follows `X-WP-TotalPages` until every page is read or `maxPages` is reached. */
+  private async listAll<T>(path: string, params: WooCommerceQueryParams = {}, maxPages: number = 10): Promise<T[]> {
+    const items: T[] = [];
+    for (let page = 1; page <= maxPages; page++) {
+      const result = await this.list<T>(path, { ...params, page });
+      items.push(...result.items);
+      if (page >= result.totalPages) break;
+    }
+    return items;
+  }
+
+  async getSystemStatus(): Promise<AxiosResponse<WooCommerceSystemStatus>> {
+    return this.request('GET', '/system_status');
+  }
+
+  getSettings(group: string): Promise<WooCommerceSetting[]> {
+    return this.get<WooCommerceSetting[]>(`/settings/${group}`);
+  }
+
+  /**
+   * Cheap authenticated request for health checks: a single order id. Unlike
+   * `/system_status` it does not make the store inspect its whole environment.
+   */
+  async probe(): Promise<AxiosResponse<unknown>> {
+    return this.request('GET', '/orders', { params: { per_page: 1, _fields: 'id' } });
+  }
+
+  listOrders<T = WooCommerceOrder>(params?: WooCommerceQueryParams): Promise<WooCommercePage<T>> {
+    return this.list<T>('/orders', params);
+  }
+
+  listAllOrders<T = WooCommerceOrder>(params?: WooCommerceQueryParams, maxPages?: number): Promise<T[]> {
+    return this.listAll<T>('/orders', params, maxPages);
+  }
+
+  getOrder<T = WooCommerceOrder>(orderId: number): Promise<T> {
+    return this.get<T>(`/orders/${orderId}`);
+  }
+
+  getOrderNotes(orderId: number): Promise<WooCommerceOrderNote[]> {
+    return this.get<WooCommerceOrderNote[]>(`/orders/${orderId}/notes`);
+  }
+
+  async updateOrder<T = WooCommerceOrder>(orderId: number, changes: Record<string, unknown>): Promise<T> {
+    const response = await this.request<T>('PUT', `/orders/${orderId}`, { data: changes });
+    return response.data;
+  }
+
+  async createOrderNote(orderId: number, note: WooCommerceOrderNoteInput): Promise<WooCommerceOrderNote> {
+    const response = await this.request<WooCommerceOrderNote>('POST', `/orders/${orderId}/notes`, { data: note });
+    return response.data;
+  }
+
+  /** WooCommerce has no endpoint for order statuses; the totals report lists every registered one. */
+  listOrderStatuses(): Promise<WooCommerceOrderStatus[]> {
+    return this.get<WooCommerceOrderStatus[]>('/reports/orders/totals');
+  }
+
+  listProducts<T = WooCommerceProduct>(params?: WooCommerceQueryParams): Promise<WooCommercePage<T>> {
+    return this.list<T>('/products', params);
+  }
+
+  getProduct<T = WooCommerceProduct>(productId: number): Promise<T> {
+    return this.get<T>(`/products/${productId}`);
+  }
+
+  listProductVariations(
+    productId: number,
+    params?: WooCommerceQueryParams
+  ): Promise<WooCommercePage<WooCommerceProductVariation>> {
+    return this.list<WooCommerceProductVariation>(`/products/${productId}/variations`, params);
+  }
+
+  listCustomers<T = WooCommerceCustomer>(params?: WooCommerceQueryParams): Promise<WooCommercePage<T>> {
+    return this.list<T>('/customers', params);
+  }
+
+  getCustomer<T = WooCommerceCustomer>(customerId: number): Promise<T> {
+    return this.get<T>(`/customers/${customerId}`);
+  }
+
+  listCoupons<T = WooCommerceCoupon>(params?: WooCommerceQueryParams): Promise<WooCommercePage<T>> {
+    return this.list<T>('/coupons', params);
+  }
+
+  /**
+   * Sends an empty order batch. It changes nothing, but WooCommerce only accepts it from
+   * keys with write access, which makes it a safe permission check.
+   */
+  async checkWriteAccess(): Promise<void> {
+    await this.request('POST', '/orders/batch', { data: {} });
+  }
+
+  async createCoupon(coupon: WooCommerceCouponInput): Promise<WooCommerceCoupon> {
+    const response = await this.request<WooCommerceCoupon>('POST', '/coupons', { data: coupon });
+    return response.data;
+  }
+
+  async getSalesReport(params?: WooCommerceQueryParams): Promise<WooCommerceSalesReport | null> {
+    // The reports endpoint answers with a single-element array.
+    const report = await this.get<WooCommerceSalesReport[]>('/reports/sales', params);
+    return report[0] ?? null;
+  }
+}
+
+export default WooCommerceClient;
@@ -1,4 +1,7 @@
-import axios from 'axios';
+import WooCommerceClient, { WooCommerceApiError, WooCommerceOrder } from './wooCommerceClient';
+import { deleteHealthHistory, recordHealthChecks } from './healthHistory';
+import { deleteStoreCache } from './storeCache';
+import CredentialVault from './credentialVault';
 
 export interface WooCommerceServer {
   id: string;
@@ -11,22 +14,133 @@ export interface WooCommerceServer {
   status?: 'online' | 'offline' | 'error';
   errorMessage?: string;
   responseTime?: number;
+  /** Seconds between status checks; falls back to the monitoring default when unset. */
+  monitorInterval?: number;
+  /** Send the API keys as query parameters for hosts that strip the Authorization header. */
+  useQueryStringAuth?: boolean;
+  credentialCheck?: CredentialCheckResult;
+  /** Free-form labels such as a brand or region; stores sharing a tag can be selected together. */
+  tags?: string[];
+  /** Badge colour; derived from the id when unset. */
+  color?: StoreColor;
+  /** Currency and date settings read from the store, used to format its prices and dates. */
+  storeLocale?: StoreLocale;
 }
 
+export type CurrencyPosition = 'left' | 'right' | 'left_space' | 'right_space';
+
+export interface StoreLocale {
+  /** ISO 4217 code, e.g. `EUR`. */
+  currency: string;
+  currencyPosition: CurrencyPosition;
+  thousandSeparator: string;
+  decimalSeparator: string;
+  decimals: number;
+  /**
+   * Minutes east of UTC. WooCommerce does not expose the site timezone, so this is derived
+   * from the latest order's local and GMT timestamps; unset for stores without orders.
+   */
+  utcOffset?: number;
+  fetchedAt: string;
+}
+
+export type StoreColor = 'blue' | 'green' | 'purple' | 'pink' | 'orange' | 'teal' | 'indigo' | 'red';
+
+export type ApiKeyAccess = 'read' | 'write' | 'read_write' | 'none' | 'unknown';
+
+export interface CredentialCheckResult {
+  checkedAt: string;
+  https: boolean;
+  /** Whether requests authenticated with the Authorization header succeed. */
+  basicAuth: 'ok' | 'stripped' | 'failed';
+  access: ApiKeyAccess;
+  wooCommerceVersion?: string;
+  wordPressVersion?: string;
+  errors: string[];
+}
+
+export interface ServerStatusResult {
+  status: 'online' | 'offline' | 'error';
+  errorMessage?: string;
+  responseTime?: number;
+}
+
+type ServerCredentials = Pick<WooCommerceServer, 'consumerKey' | 'consumerSecret'>;
+
+/** A server entry as kept in localStorage; entries written by older versions still carry the keys. */
+type StoredServer = Omit<WooCommerceServer, keyof ServerCredentials> & Partial<ServerCredentials>;
+
 interface ServerMonitorCallback {
   (servers: WooCommerceServer[]): void;
 }
 
 class WooCommerceService {
   private static STORAGE_KEY = 'woocommerce_servers';
-  private static monitoringInterval: number | null = null;
+  private static CREDENTIALS_KEY = 'woocommerce_server_credentials';
+  private static DEFAULT_SERVER_KEY = 'woocommerce_default_server';
+  private static PAGE_SERVERS_KEY = 'woocommerce_page_servers';
+  private static LOCALE_MAX_AGE = 24 * 60 * 60 * 1000; // 1 day
   private static monitorCallbacks: ServerMonitorCallback[] = [];
-  private static DEFAULT_TIMEOUT = 10000; // 10 seconds
-  private static MAX_RETRIES = 2;
+  private static listeningForStorage = false;
+  private static unsubscribeVault: (() => void) | null = null;
+  private static legacyMigrated = false;
 
   static getServers(): WooCommerceServer[] {
+    // Without their keys the stores cannot be queried, so they are hidden while the vault is locked.
+    if (CredentialVault.isLocked()) return [];
+
     const serversJson = localStorage.getItem(this.STORAGE_KEY);
-    return serversJson ? JSON.parse(serversJson) : [];
+    const servers: StoredServer[] = serversJson ? JSON.parse(serversJson) : [];
+    const credentials = this.getCredentials();
+    return servers.map(server => ({
+      ...server,
+      consumerKey: credentials[server.id]?.consumerKey ?? server.consumerKey ?? '',
+      consumerSecret: credentials[server.id]?.consumerSecret ?? server.consumerSecret ?? ''
+    }));
+  }
+
+  /**
+   * Only the API keys are kept in the credential vault, by server id; the rest of each entry
+   * is stored in plain localStorage, so status updates do not re-encrypt the vault.
+   */
+  private static saveServers(servers: WooCommerceServer[]): void {
+    const credentials: Record<string, ServerCredentials> = {};
+    servers.forEach(({ id, consumerKey, consumerSecret }) => {
+      credentials[id] = { consumerKey, consumerSecret };
+    });
+
+    const credentialsJson = JSON.stringify(credentials);
+    // Writing while locked throws, before the list itself is touched.
+    if (CredentialVault.isLocked() || credentialsJson !== CredentialVault.getItem(this.CREDENTIALS_KEY)) {
+      CredentialVault.setItem(this.CREDENTIALS_KEY, credentialsJson);
+    }
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(servers.map(server => {
+      const settings: StoredServer = { ...server };
+      delete settings.consumerKey;
+      delete settings.consumerSecret;
+      return settings;
+    })));
+  }
+
+  private static getCredentials(): Record<string, ServerCredentials> {
+    const credentialsJson = CredentialVault.getItem(this.CREDENTIALS_KEY);
+    return credentialsJson ? JSON.parse(credentialsJson) : {};
+  }
+
+  /**
+   * Earlier versions kept the keys inside the server entries, and the whole list in the
+   * vault. Entries are split up once per session, as soon as the vault is readable; until
+   * then `getServers` still reads keys left in plain entries.
+   */
+  static migrateLegacyServers(): void {
+    if (this.legacyMigrated || CredentialVault.isLocked()) return;
+    this.legacyMigrated = true;
+
+    const serversJson = CredentialVault.takeLegacyItem(this.STORAGE_KEY) ?? localStorage.getItem(this.STORAGE_KEY);
+    const servers: WooCommerceServer[] = serversJson ? JSON.parse(serversJson) : [];
+    if (servers.some(server => 'consumerKey' in server)) {
+      this.saveServers(servers);
+    }
   }
 
   static getActiveServers(): WooCommerceServer[] {
@@ -34,6 +148,51 @@ class WooCommerceService {
     return servers.filter(server => server.isActive && server.status === 'online');
   }
 
+  static getDefaultServerId(): string | null {
+    return localStorage.getItem(this.DEFAULT_SERVER_KEY);
+  }
+
+  /**
+   * The store single-store views should use. A per-page override wins over the default
+   * store; without either, the first enabled online store is used.
+   */
+  static getActiveServer(page?: string): WooCommerceServer | null {
+    const servers = this.getServers();
+    const pageServerId = page ? this.getPageServerId(page) : null;
+
+    return servers.find(s => s.id === pageServerId)
+      || servers.find(s => s.id === this.getDefaultServerId())
+      || servers.find(s => s.isActive && s.status === 'online')
+      || servers[0]
+      || null;
+  }
+
+  /** Makes the given server the default store. */
+  static setActiveServer(serverId: string): void {
+    localStorage.setItem(this.DEFAULT_SERVER_KEY, serverId);
+    this.notifyMonitorCallbacks();
+  }
+
+  static getPageServerId(page: string): string | null {
+    return this.getPageServers()[page] || null;
+  }
+
+  /** Overrides the default store for one page; pass null to fall back to the default again. */
+  static setPageServer(page: string, serverId: string | null): void {
+    const pageServers = this.getPageServers();
+    if (serverId) {
+      pageServers[page] = serverId;
+    } else {
+      delete pageServers[page];
+    }
+    localStorage.setItem(this.PAGE_SERVERS_KEY, JSON.stringify(pageServers));
+  }
+
+  private static getPageServers(): Record<string, string> {
+    const pageServersJson = localStorage.getItem(this.PAGE_SERVERS_KEY);
+    return pageServersJson ? JSON.parse(pageServersJson) : {};
+  }
+
   static async addServer(server: Omit<WooCommerceServer, 'id' | 'isActive' | 'status'>): Promise<WooCommerceServer> {
     const servers = this.getServers();
     const newServer: WooCommerceServer = {
@@ -44,7 +203,7 @@ class WooCommerceService {
     };
 
     servers.push(newServer);
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(servers));
+    this.saveServers(servers);
     this.notifyMonitorCallbacks();
     return newServer;
   }
@@ -55,14 +214,28 @@ class WooCommerceService {
     
     if (index !== -1) {
       servers[index] = { ...servers[index], ...updates };
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(servers));
+      this.saveServers(servers);
       this.notifyMonitorCallbacks();
     }
   }
 
   static deleteServer(serverId: string): void {
     const servers = this.getServers().filter(s => s.id !== serverId);
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(servers));
+    this.saveServers(servers);
+
+    if (this.getDefaultServerId() === serverId) {
+      localStorage.removeItem(this.DEFAULT_SERVER_KEY);
+    }
+    const pageServers = this.getPageServers();
+    Object.keys(pageServers)
+      .filter(page => pageServers[page] === serverId)
+      .forEach(page => this.setPageServer(page, null));
+
+    deleteHealthHistory(serverId)
+      .catch(error => console.error('Failed to delete server health history:', error));
+    deleteStoreCache(serverId)
+      .catch(error => console.error('Failed to delete cached store data:', error));
+
     this.notifyMonitorCallbacks();
   }
 
@@ -71,122 +244,163 @@ class WooCommerceService {
     const server = servers.find(s => s.id === serverId);
     if (server) {
       server.isActive = !server.isActive;
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(servers));
+      this.saveServers(servers);
       this.notifyMonitorCallbacks();
     }
   }
 
-  private static async checkServerWithRetry(
-    server: WooCommerceServer,
-    retryCount: number = 0
-  ): Promise<{
-    status: 'online' | 'offline' | 'error';
-    errorMessage?: string;
-    responseTime?: number;
-  }> {
+  static async checkServerStatus(server: WooCommerceServer): Promise<ServerStatusResult> {
     const startTime = Date.now();
 
     try {
-      const response = await axios.get(`${server.url}/wp-json/wc/v3/system_status`, {
-        auth: {
-          username: server.consumerKey,
-          password: server.consumerSecret
-        },
-        timeout: this.DEFAULT_TIMEOUT
-      });
-
-      const responseTime = Date.now() - startTime;
+      // The client retries timeouts itself, so a failure here is final.
+      const response = await new WooCommerceClient(server).probe();
 
       return {
         status: response.status === 200 ? 'online' : 'error',
         errorMessage: response.status !== 200 ? 'Server returned unexpected status' : undefined,
-        responseTime
+        responseTime: Date.now() - startTime
       };
     } catch (error) {
-      const isTimeout = error instanceof Error && 
-        (error.message.includes('timeout') || error.message.includes('ECONNABORTED'));
-      
-      if (isTimeout && retryCount < this.MAX_RETRIES) {
-        return this.checkServerWithRetry(server, retryCount + 1);
-      }
+      const isNetworkError = error instanceof WooCommerceApiError && error.isNetworkError;
 
-      const isNetworkError = error instanceof Error && 
-        (error.message.includes('Network Error') || isTimeout);
-      
       return {
         status: isNetworkError ? 'offline' : 'error',
-        errorMessage: error instanceof Error ? 
-          `${error.message}${retryCount > 0 ? ` (after ${retryCount + 1} attempts)` : ''}` : 
-          'Unknown error occurred',
+        errorMessage: error instanceof Error ? error.message : 'Unknown error occurred',
         responseTime: Date.now() - startTime
       };
     }
   }
 
-  static async checkServerStatus(server: WooCommerceServer): Promise<{
-    status: 'online' | 'offline' | 'error';
-    errorMessage?: string;
-    responseTime?: number;
-  }> {
-    return this.checkServerWithRetry(server);
+  /** Checks one server, records the result in its health history and stores the new status. */
+  static async checkAndUpdateServer(server: WooCommerceServer): Promise<ServerStatusResult> {
+    const result = await this.checkServerStatus(server);
+
+    recordHealthChecks([{ serverId: server.id, checkedAt: Date.now(), ...result }])
+      .catch(error => console.error('Failed to record server health history:', error));
+
+    // Re-read the server so edits made while the check was running are not overwritten.
+    if (this.getServers().some(s => s.id === server.id)) {
+      this.updateServer(server.id, {
+        ...result,
+        lastChecked: new Date().toISOString()
+      });
+
+      const fetchedAt = server.storeLocale ? new Date(server.storeLocale.fetchedAt).getTime() : 0;
+      if (result.status === 'online' && Date.now() - fetchedAt > this.LOCALE_MAX_AGE) {
+        this.refreshStoreLocale(server)
+          .catch(error => console.error(`Failed to read the store settings of ${server.name}:`, error));
+      }
+    }
+    return result;
   }
 
-  static async checkAllServersStatus(): Promise<void> {
-    const servers = this.getServers();
-    let hasChanges = false;
-    
-    const results = await Promise.all(
-      servers.map(async server => {
-        const result = await this.checkServerStatus(server);
-        return { server, result };
+  /** Reads the store's currency, price format and UTC offset and caches them on the server. */
+  static async refreshStoreLocale(server: WooCommerceServer): Promise<StoreLocale> {
+    const client = new WooCommerceClient(server);
+    const [settings, orders] = await Promise.all([
+      client.getSettings('general'),
+      client.listOrders<Pick<WooCommerceOrder, 'date_created' | 'date_created_gmt'>>({
+        per_page: 1,
+        _fields: 'date_created,date_created_gmt'
       })
-    );
-
-    results.forEach(({ server, result }) => {
-      const { status, errorMessage, responseTime } = result;
-      if (
-        server.status !== status || 
-        server.errorMessage !== errorMessage ||
-        server.responseTime !== responseTime
-      ) {
-        this.updateServer(server.id, {
-          status,
-          errorMessage,
-          responseTime,
-          lastChecked: new Date().toISOString()
-        });
-        hasChanges = true;
+    ]);
+    const value = (id: string) => settings.find(setting => setting.id === id)?.value;
+
+    const latest = orders.items[0];
+    const utcOffset = latest?.date_created_gmt
+      ? Math.round((Date.parse(`${latest.date_created}Z`) - Date.parse(`${latest.date_created_gmt}Z`)) / 60000)
+      : NaN;
+    const decimals = parseInt(value('woocommerce_price_num_decimals') ?? '', 10);
+
+    const storeLocale: StoreLocale = {
+      currency: value('woocommerce_currency') || 'USD',
+      currencyPosition: (value('woocommerce_currency_pos') as CurrencyPosition) || 'left',
+      thousandSeparator: value('woocommerce_price_thousand_sep') ?? ',',
+      decimalSeparator: value('woocommerce_price_decimal_sep') || '.',
+      decimals: Number.isNaN(decimals) ? 2 : decimals,
+      utcOffset: Number.isNaN(utcOffset) ? undefined : utcOffset,
+      fetchedAt: new Date().toISOString()
+    };
+
+    if (this.getServers().some(s => s.id === server.id)) {
+      this.updateServer(server.id, { storeLocale });
+    }
+    return storeLocale;
+  }
+
+  /** Finds the configured server an imported one corresponds to: same id, or else same URL. */
+  static findMatchingServer(
+    server: Pick<WooCommerceServer, 'id' | 'url'>,
+    servers: WooCommerceServer[] = this.getServers()
+  ): WooCommerceServer | undefined {
+    const normalizeUrl = (url: string) => url.trim().toLowerCase().replace(/\/+$/, '');
+    return servers.find(s => s.id === server.id)
+      || servers.find(s => normalizeUrl(s.url) === normalizeUrl(server.url));
+  }
+
+  /**
+   * Merges servers from another browser into the list. A server matches an existing one by
+   * id or, failing that, by URL; matches are updated in place and keep their local id.
+   * Returns a map from each imported id to the id it is stored under.
+   */
+  static importServers(imported: WooCommerceServer[]): Record<string, string> {
+    const servers = this.getServers();
+    const idMap: Record<string, string> = {};
+
+    imported.forEach(server => {
+      const existing = this.findMatchingServer(server, servers);
+      const match = existing ? servers.indexOf(existing) : -1;
+
+      if (match !== -1) {
+        servers[match] = { ...servers[match], ...server, id: servers[match].id };
+        idMap[server.id] = servers[match].id;
+      } else {
+        servers.push({ ...server, status: 'offline' });
+        idMap[server.id] = server.id;
       }
     });
 
-    if (hasChanges) {
-      this.notifyMonitorCallbacks();
-    }
+    this.saveServers(servers);
+    this.notifyMonitorCallbacks();
+    return idMap;
   }
 
-  static startMonitoring(callback?: ServerMonitorCallback): void {
-    if (callback) {
-      this.monitorCallbacks.push(callback);
-    }
+  static async checkAllServersStatus(): Promise<void> {
+    await Promise.all(this.getServers().map(server => this.checkAndUpdateServer(server)));
+  }
 
-    if (this.monitoringInterval === null) {
-      this.checkAllServersStatus();
-      this.monitoringInterval = window.setInterval(() => {
-        this.checkAllServersStatus();
-      }, 5000);
+  /**
+   * Calls back whenever the server list or a server's status changes, including changes
+   * written by another tab. Returns an unsubscribe function.
+   */
+  static subscribe(callback: ServerMonitorCallback): () => void {
+    this.monitorCallbacks.push(callback);
+
+    if (!this.listeningForStorage) {
+      window.addEventListener('storage', this.handleStorage);
+      // Locking, unlocking or another tab's writes change what getServers() returns.
+      this.unsubscribeVault = CredentialVault.subscribe(() => this.notifyMonitorCallbacks());
+      this.listeningForStorage = true;
     }
-  }
 
-  static stopMonitoring(callback?: ServerMonitorCallback): void {
-    if (callback) {
+    return () => {
       this.monitorCallbacks = this.monitorCallbacks.filter(cb => cb !== callback);
-    }
+      if (this.monitorCallbacks.length === 0 && this.listeningForStorage) {
+        window.removeEventListener('storage', this.handleStorage);
+        this.unsubscribeVault?.();
+        this.unsubscribeVault = null;
+        this.listeningForStorage = false;
+      }
+    };
+  }
 
-    if (this.monitorCallbacks.length === 0 && this.monitoringInterval !== null) {
-      window.clearInterval(this.monitoringInterval);
-      this.monitoringInterval = null;
+  private static handleStorage = (event: StorageEvent): void => {
+    const keys = [WooCommerceService.STORAGE_KEY, WooCommerceService.CREDENTIALS_KEY, WooCommerceService.DEFAULT_SERVER_KEY];
+    if (event.key !== null && keys.includes(event.key)) {
+      WooCommerceService.notifyMonitorCallbacks();
     }
-  }
+  };
 
   private static notifyMonitorCallbacks(): void {
     const servers = this.getServers();